@@ -9,7 +9,8 @@ import {
     CheckCircle,
     XCircle,
     AlertCircle,
-    Download
+    Download,
+    Upload
 } from 'lucide-react';
 import { TransferTask } from '@/types/api';
 import { apiClient } from '@/services/api';
@@ -213,6 +214,19 @@ const TransferMonitor: React.FC<TransferMonitorProps> = ({ tasks, onTaskUpdate,
         }
     };
 
+    const getTransferTypeLabel = (transferType: TransferTask['transferType']) => {
+        switch (transferType) {
+            case 'webdav':
+                return { icon: <Download className="w-3 h-3" />, text: 'Rec → WebDAV' };
+            case 'disk':
+                return { icon: <Download className="w-3 h-3" />, text: 'Download' };
+            case 'upload':
+                return { icon: <Upload className="w-3 h-3" />, text: 'Upload' };
+            default:
+                return { icon: <Download className="w-3 h-3" />, text: transferType };
+        }
+    };
+
     const getStatusColor = (status: TransferTask['status']) => {
         switch (status) {
             case 'pending':
@@ -504,6 +518,10 @@ const TransferMonitor: React.FC<TransferMonitorProps> = ({ tasks, onTaskUpdate,
                                                     {task.status.charAt(0).toUpperCase() + task.status.slice(1)}
                                                     {isCompleted && <span className="ml-1">✨</span>}
                                                 </span>
+                                                <span className="flex items-center gap-1 text-xs text-gray-500">
+                                                    {getTransferTypeLabel(task.transferType).icon}
+                                                    {getTransferTypeLabel(task.transferType).text}
+                                                </span>
                                                 <span className="text-xs text-gray-500">
                                                     {formatBytes(task.transferredSize)} / {formatBytes(task.totalSize)}
                                                 </span>
@@ -81,8 +81,9 @@ class ApiClient {
         await this.api.post('/rec/mkdir', { path });
     }
 
-    async recDeleteFile(path: string): Promise<void> {
-        await this.api.delete('/rec/delete', { params: { path } });
+    async recDeleteFile(path: string | string[]): Promise<void> {
+        // repeat the parameter for multiple paths, e.g. ?path=a&path=b
+        await this.api.delete('/rec/delete', { params: { path }, paramsSerializer: { indexes: null } });
     }
 
     async recRenameFile(src: string, name: string): Promise<void> {
@@ -148,11 +149,13 @@ class ApiClient {
     }
 
     // Transfer Operations
-    async createTransfer(srcPath: string, destPath: string, transferType: 'webdav' | 'disk' = 'webdav'): Promise<{ taskId: string }> {
+    async createTransfer(srcPath: string, destPath: string, transferType: 'webdav' | 'disk' | 'upload' = 'webdav', verify: boolean = false, retransfer: boolean = false): Promise<{ taskId: string }> {
         const response = await this.api.post<{ taskId: string }>('/transfer/create', {
             srcPath,
             destPath,
-            transferType
+            transferType,
+            verify,
+            retransfer
         });
         return response.data;
     }
@@ -1,19 +1,37 @@
 #!/usr/bin/env node
 
-import RecAPI from "@services/rec-api.js";
+import RecAPI, { UserAuth } from "@services/rec-api.js";
 import * as userAuthSaver from "@services/rec-user-auth-saver.js";
 import * as panDavAuthSaver from "@services/pan-dav-auth-saver.js";
+import * as profileManager from "@services/profile-manager.js";
 import { createPanDavClient, PanDavAuth } from "@services/pan-dav-api.js";
 import RecCli from "@services/rec-cli.js";
+import { isOutputFormat, outputFormats } from "@utils/output-formatter.js";
 import RecServer from "@services/rec-server.js";
 import { Command } from "commander";
 import inquirer from "inquirer";
 import { exit } from "process";
 import { createRequire } from "module";
+import fs from "fs";
+import { parseScript, ScriptLine } from "@utils/script-parser.js";
+import { TableFormatter } from "@utils/table-formatter.js";
+import { Color } from "@utils/color-string.js";
 
 const program = new Command();
 const version = createRequire(import.meta.url)("../package.json").version;
 
+// variables of a script, environment variables, $DATE, $TIME and positional arguments from $1
+function getScriptVariables(name: string, args: string[]): { [name: string]: string } {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return {
+        ...process.env as { [name: string]: string },
+        DATE: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+        TIME: `${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`,
+        ...Object.fromEntries([name, ...args].map((arg, i) => [String(i), arg]))
+    };
+}
+
 program
     .name("reccli-ts")
     .description("This is a command line interface for the Rec Cloud Service")
@@ -50,11 +68,14 @@ program
             console.log(`Logging in with account: ${account}`);
 
             const api = new RecAPI(undefined, (userAuth) => {
-                userAuthSaver.setUserAuth(isDefault ? undefined : account, userAuth);
+                userAuthSaver.setUserAuth(account, userAuth);
                 console.log("Your token has been successfully saved.");
             });
 
             await api.login(account, password);
+            profileManager.addProfile("rec", account);
+            // the default account points to the account, see setDefault
+            if (isDefault) profileManager.setDefault("rec", account);
 
         } catch (error) {
             if (error instanceof Error) {
@@ -112,7 +133,9 @@ program
             }
 
             // Save WebDav credentials if verification succeeds
-            panDavAuthSaver.setPanDavAuth(isDefault ? undefined : account, panDavAuth);
+            panDavAuthSaver.setPanDavAuth(account, panDavAuth);
+            profileManager.addProfile("pandav", account);
+            if (isDefault) profileManager.setDefault("pandav", account);
             console.log("Your WebDav credentials have been successfully saved.");
         } catch (error) {
             if (error instanceof Error) {
@@ -130,34 +153,217 @@ program
     .option("-a, --account <account>", "student ID")
     .option("-p, --pan-dav-account <pandav>", "Pan WebDav account")
     .option("-c, --commands <command...>", "commands to run")
+    .option("-f, --file <script>", "run the commands in a script file, the arguments are $1, $2, ...")
+    .argument("[args...]", "\"-\" to read the script from stdin, followed by the arguments of the script")
+    .option("--cache [seconds]", "persist folder listings in ~/.reccli-ts/cache for the given seconds")
+    .option("--json", "print command results as json, the same as -o json")
+    .option("-o, --output <format>", `format of command results, one of ${outputFormats.join(", ")}`)
+    .option("--keep-going", "run the remaining commands after a command failed, the default")
+    .option("--fail-fast", "stop at the first command that failed")
     .description("run the Rec Cloud Service CLI")
-    .action(async (options) => {
+    .action(async (args: string[], options) => {
         const account = options.account;
         const panDavAccount = options.panDavAccount;
-        const lines: string[] = options.commands;
+        const stdin = args[0] === "-";
+        if ([options.commands, options.file, stdin].filter(Boolean).length > 1) {
+            console.error("Error: -c, -f and - cannot be used together");
+            exit(1);
+        }
+        if (args.length > 0 && !options.file && !stdin) {
+            console.error("Error: arguments are only for scripts run by -f or -");
+            exit(1);
+        }
+        let lines: ScriptLine[] | undefined;
+        try {
+            if (options.file) {
+                lines = parseScript(fs.readFileSync(options.file, "utf8"), getScriptVariables(options.file, args));
+            } else if (stdin) {
+                lines = parseScript(fs.readFileSync(0, "utf8"), getScriptVariables("-", args.slice(1)));
+            } else if (options.commands) {
+                lines = (options.commands as string[]).map((command, i) => ({ line: i + 1, command }));
+            }
+        } catch (error) {
+            console.error(`Error: ${error instanceof Error ? error.message : error}`);
+            exit(1);
+        }
+        // --cache without seconds keeps listings for 5 minutes
+        const cacheSeconds = options.cache === true ? 300 : options.cache !== undefined ? Number(options.cache) : undefined;
+        if (cacheSeconds !== undefined && !(cacheSeconds > 0)) {
+            console.error(`Error: invalid cache seconds: ${options.cache}`);
+            exit(1);
+        }
+        const cacheTtl = cacheSeconds && cacheSeconds * 1000;
+        const output = options.json ? "json" : options.output ?? "text";
+        if (!isOutputFormat(output)) {
+            console.error(`Error: output must be one of ${outputFormats.join(", ")}`);
+            exit(1);
+        }
+        if (options.keepGoing && options.failFast) {
+            console.error("Error: --keep-going and --fail-fast cannot be used together");
+            exit(1);
+        }
 
-        const userAuth = userAuthSaver.getUserAuth(account);
+        let userAuth: UserAuth | undefined;
+        let panDavAuth: PanDavAuth | undefined;
+        try {
+            userAuth = userAuthSaver.getUserAuth(account);
+            panDavAuth = panDavAuthSaver.getPanDavAuth(panDavAccount);
+        } catch (error) {
+            console.error(`Error: ${error instanceof Error ? error.message : error}`);
+            exit(1);
+        }
+        // accounts logged in before profiles were kept are remembered when used
+        if (userAuth) profileManager.addProfile("rec", account);
         const api = new RecAPI(userAuth, (userAuth) => {
             userAuthSaver.setUserAuth(account, userAuth);
         });
 
-        const panDavAuth = panDavAuthSaver.getPanDavAuth(panDavAccount);
+        if (panDavAuth) profileManager.addProfile("pandav", panDavAccount);
         const client = panDavAuth ? createPanDavClient(panDavAuth) : undefined;
 
         // non-interactive mode
         if (lines) {
-            const cli = new RecCli(api, client, true);
-            // Run the commands and exit
+            const cli = new RecCli(api, client, true, account, cacheTtl, panDavAccount);
+            cli.setOutput(output);
+            // Run the commands and exit, with 1 if any of them failed
+            const failed: ScriptLine[] = [];
+            let run = 0;
             for (const line of lines) {
-                await cli.parseLine(line, true);
+                run++;
+                if (!await cli.parseLine(line.command, true)) {
+                    failed.push(line);
+                    // "set -e" in a script works like --fail-fast
+                    if (options.failFast || cli.isErrexit()) break;
+                }
             }
-            exit(0);
+            if (failed.length > 0) {
+                // the summary goes to stderr so that it never mixes with the results
+                console.error(`${failed.length} of ${lines.length} commands failed${run < lines.length ? `, ${lines.length - run} not run` : ""}:`);
+                failed.forEach(l => console.error(`  [${l.line}] ${l.command}`));
+            }
+            exit(failed.length > 0 ? 1 : 0);
         }
 
-        const cli = new RecCli(api, client);
+        const cli = new RecCli(api, client, false, account, cacheTtl, panDavAccount);
+        // "set output" in ~/.reccli-ts/rc is overridden by --json and -o
+        await cli.loadRc();
+        if (options.json || options.output) cli.setOutput(output);
         cli.run();
     });
 
+const accounts = program
+    .command("accounts")
+    .description("list the saved accounts, change the default account or remove an account");
+
+accounts
+    .command("list")
+    .option("--json", "print the accounts as json")
+    .description("list the saved Rec and WebDav accounts and whether their tokens are expired or refreshable")
+    .action((options) => {
+        const profiles = profileManager.listProfiles().map(p => {
+            const status = profileManager.getProfileStatus(p);
+            return {
+                kind: p.kind,
+                account: p.account ?? "default",
+                // the account the default account points to
+                defaultOf: p.account ? undefined : profileManager.getDefault(p.kind),
+                status: status.status,
+                expires: status.expires !== undefined ? new Date(status.expires).toISOString() : undefined
+            };
+        });
+        if (options.json) {
+            console.log(JSON.stringify(profiles));
+            return;
+        }
+        if (profiles.length === 0) {
+            console.log("No saved accounts, login with 'reccli-ts login' or 'reccli-ts webdav-login'.");
+            return;
+        }
+        const colors: { [status: string]: Color } = { valid: "green", refreshable: "yellow", expired: "red", locked: "red" };
+        const formatter = new TableFormatter([
+            { name: "kind", width: 8 },
+            { name: "account", width: 24 },
+            { name: "status", width: 12 },
+            { name: "expires", width: 24 }
+        ]);
+        console.log(formatter.formatTable(profiles.map(p => ({
+            kind: { value: p.kind },
+            account: { value: p.defaultOf ? `default (${p.defaultOf})` : p.account },
+            status: { value: p.status, color: colors[p.status] },
+            expires: { value: p.expires ? new Date(p.expires).toLocaleString() : "" }
+        }))));
+    });
+
+accounts
+    .command("set-default")
+    .argument("<account>", "a saved account")
+    .option("-w, --webdav", "a WebDav account instead of a Rec account")
+    .description("use a saved account when no account is given")
+    .action((account: string, options) => {
+        try {
+            if (!profileManager.setDefault(options.webdav ? "pandav" : "rec", account)) {
+                console.error(`Error: ${account} is not logged in`);
+                exit(1);
+            }
+            console.log(`${account} is now the default ${options.webdav ? "WebDav" : "Rec"} account.`);
+        } catch (error) {
+            console.error(`Error: ${error instanceof Error ? error.message : error}`);
+            exit(1);
+        }
+    });
+
+accounts
+    .command("remove")
+    .argument("<account>", "a saved account, \"default\" for the default account")
+    .option("-w, --webdav", "a WebDav account instead of a Rec account")
+    .description("remove the saved credentials of an account")
+    .action((account: string, options) => {
+        if (!profileManager.removeAccount(options.webdav ? "pandav" : "rec", account === "default" ? undefined : account)) {
+            console.error(`Error: ${account} is not logged in`);
+            exit(1);
+        }
+        console.log(`The credentials of ${account} have been removed.`);
+    });
+
+program
+    .command("logout")
+    .option("-a, --all", "logout from all saved Rec and WebDav accounts")
+    .option("--account <account>", "student ID, or WebDav account with -w, the default account if not given")
+    .option("-w, --webdav", "logout from a WebDav account instead of a Rec account")
+    .description("remove saved credentials, the files are overwritten before they are removed")
+    .action((options) => {
+        if (options.all) {
+            if (options.account || options.webdav) {
+                console.error("Error: -a cannot be used with --account or -w");
+                exit(1);
+            }
+            const profiles = profileManager.listProfiles();
+            profiles.forEach(p => profileManager.removeAccount(p.kind, p.account));
+            console.log(`Logged out from ${profiles.length} accounts.`);
+            return;
+        }
+        const account: string | undefined = options.account;
+        if (!profileManager.removeAccount(options.webdav ? "pandav" : "rec", account)) {
+            console.error(`Error: ${account ?? "the default account"} is not logged in`);
+            exit(1);
+        }
+        console.log(`Logged out from ${account ?? "the default account"}.`);
+    });
+
+program
+    .command("migrate")
+    .description("encrypt the credentials saved by older versions, with $RECCLI_PASSPHRASE if set, otherwise with the key file")
+    .action(() => {
+        try {
+            const rec = userAuthSaver.migrateUserAuth();
+            const panDav = panDavAuthSaver.migratePanDavAuth();
+            console.log(`Encrypted ${rec} Rec and ${panDav} WebDav credential files.`);
+        } catch (error) {
+            console.error(`Error: ${error instanceof Error ? error.message : error}`);
+            exit(1);
+        }
+    });
+
 program
     .command("server")
     .option("-p, --port <port>", "server port", "3000")
@@ -0,0 +1,137 @@
+import fs from "fs"
+import crypto from 'crypto';
+import { homedir } from "os";
+
+const dirPath = `${homedir()}/.reccli-ts`;
+
+// the key is derived from this passphrase if set, otherwise read from the key file
+const passphraseEnv = "RECCLI_PASSPHRASE";
+const keyFileEnv = "RECCLI_KEY_FILE";
+const defaultKeyPath = dirPath + "/key";
+
+// "passphrase" derives the key by scrypt, "keyfile" by hkdf from the content of the key file
+type KeySource = "passphrase" | "keyfile";
+
+// content of an encrypted credential file, binary fields in base64
+type EncryptedCredential = {
+    version: 1,
+    source: KeySource,
+    salt: string,
+    iv: string,
+    tag: string,
+    data: string
+}
+
+function getKeyPath(): string {
+    return process.env[keyFileEnv] || defaultKeyPath;
+}
+
+function ensureDir() {
+    if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { mode: 0o700 });
+}
+
+// write a file only the user can read, the mode of an existing file is fixed too
+function writePrivateFile(path: string, data: string | Buffer) {
+    fs.writeFileSync(path, data, { mode: 0o600 });
+    fs.chmodSync(path, 0o600);
+}
+
+// read the key file, a random one is created at the default path if there is none
+function readKeyFile(create: boolean): Buffer {
+    const path = getKeyPath();
+    if (!fs.existsSync(path)) {
+        if (!create || path !== defaultKeyPath) {
+            throw new Error(`key file ${path} not found`);
+        }
+        ensureDir();
+        writePrivateFile(path, crypto.randomBytes(32).toString('base64'));
+    }
+    return fs.readFileSync(path);
+}
+
+function deriveKey(source: KeySource, salt: Buffer, create: boolean): Buffer {
+    if (source === "passphrase") {
+        const passphrase = process.env[passphraseEnv];
+        if (!passphrase) {
+            throw new Error(`credentials are encrypted with a passphrase, set ${passphraseEnv} to read them`);
+        }
+        return crypto.scryptSync(passphrase, salt, 32);
+    }
+    return Buffer.from(crypto.hkdfSync('sha256', readKeyFile(create), salt, "reccli-ts credentials", 32));
+}
+
+function encrypt(value: unknown): EncryptedCredential {
+    const source: KeySource = process.env[passphraseEnv] ? "passphrase" : "keyfile";
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(source, salt, true), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+    return {
+        version: 1,
+        source: source,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64')
+    };
+}
+
+function decrypt(credential: EncryptedCredential): unknown {
+    const key = deriveKey(credential.source, Buffer.from(credential.salt, 'base64'), false);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(credential.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(credential.tag, 'base64'));
+    try {
+        return JSON.parse(Buffer.concat([decipher.update(Buffer.from(credential.data, 'base64')), decipher.final()]).toString('utf8'));
+    } catch {
+        throw new Error(`cannot decrypt credentials, wrong ${credential.source === "passphrase" ? "passphrase" : "key file"}`);
+    }
+}
+
+// files written by older versions are base64 json, encrypted files are json
+function isEncrypted(content: string): boolean {
+    return content.trimStart().startsWith("{");
+}
+
+// read a credential file, undefined if it does not exist
+function readCredential<T>(path: string): T | undefined {
+    if (!fs.existsSync(path)) return undefined;
+    const content = fs.readFileSync(path, 'utf8');
+    if (!isEncrypted(content)) {
+        return JSON.parse(Buffer.from(content, 'base64').toString());
+    }
+    return decrypt(JSON.parse(content)) as T;
+}
+
+// encrypt and write a credential file, readable only by the user
+function writeCredential(path: string, value: unknown) {
+    ensureDir();
+    writePrivateFile(path, JSON.stringify(encrypt(value)));
+}
+
+// overwrite a credential file with random bytes before removing it, false if it does not exist
+function deleteCredential(path: string): boolean {
+    if (!fs.existsSync(path)) return false;
+    const fd = fs.openSync(path, 'r+');
+    try {
+        fs.writeSync(fd, crypto.randomBytes(fs.fstatSync(fd).size));
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+    fs.unlinkSync(path);
+    return true;
+}
+
+// encrypt a credential file written by an older version and fix its mode
+// return whether the file was encrypted now
+function migrateCredential(path: string): boolean {
+    if (!fs.existsSync(path)) return false;
+    if (isEncrypted(fs.readFileSync(path, 'utf8'))) {
+        fs.chmodSync(path, 0o600);
+        return false;
+    }
+    writeCredential(path, readCredential(path));
+    return true;
+}
+
+export { readCredential, writeCredential, deleteCredential, migrateCredential }
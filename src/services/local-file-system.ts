@@ -1,5 +1,7 @@
 import fs from 'fs/promises';
-import { Stats } from 'fs';
+import { Stats, createReadStream, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import path from 'path';
 import os from 'os';
 
@@ -24,6 +26,16 @@ function convertStat(name: string, stat: Stats): LocalFile {
     };
 }
 
+// whether a path exists, broken links included
+async function exists(realPath: string): Promise<boolean> {
+    try {
+        await fs.lstat(realPath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 export class LocalFileSystem {
     private cwd: string;
     private readonly isWindows: boolean;
@@ -292,6 +304,219 @@ export class LocalFileSystem {
             };
         }
     }
+
+    // get total size of a file or directory recursively
+    public async du(targetPath: string): Promise<RetType<number>> {
+        const virtualPath = this.normalizePath(targetPath);
+        const realPath = this.toRealPath(virtualPath);
+
+        const calcSize = async (p: string): Promise<number> => {
+            const stat = await fs.stat(p);
+            if (!stat.isDirectory()) return stat.size;
+            const entries = await fs.readdir(p);
+            const sizes = await Promise.all(entries.map(entry => calcSize(path.join(p, entry))));
+            return sizes.reduce((sum, size) => sum + size, 0);
+        };
+
+        try {
+            return {
+                stat: true,
+                data: await calcSize(realPath)
+            };
+        } catch {
+            return {
+                stat: false,
+                msg: `${virtualPath} not found`
+            };
+        }
+    }
+
+    // get a file or directory
+    public async entry(targetPath: string): Promise<RetType<LocalFile>> {
+        const virtualPath = this.normalizePath(targetPath);
+        try {
+            return {
+                stat: true,
+                data: convertStat(path.basename(virtualPath), await fs.stat(this.toRealPath(virtualPath)))
+            };
+        } catch {
+            return {
+                stat: false,
+                msg: `${virtualPath} not found`
+            };
+        }
+    }
+
+    // create a directory, its parent must exist
+    public async mkdir(targetPath: string): Promise<RetType<void>> {
+        const virtualPath = this.normalizePath(targetPath);
+        try {
+            await fs.mkdir(this.toRealPath(virtualPath));
+        } catch (error) {
+            return {
+                stat: false,
+                msg: (error as NodeJS.ErrnoException).code === 'EEXIST' ? `${virtualPath} already exists` : `cannot create ${virtualPath}`
+            };
+        }
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
+
+    // remove a file or directory recursively
+    public async rm(targetPath: string): Promise<RetType<void>> {
+        const virtualPath = this.normalizePath(targetPath);
+        const realPath = this.toRealPath(virtualPath);
+        if (!await exists(realPath)) {
+            return {
+                stat: false,
+                msg: `${virtualPath} not found`
+            };
+        }
+        try {
+            await fs.rm(realPath, { recursive: true });
+        } catch {
+            return {
+                stat: false,
+                msg: `cannot remove ${virtualPath}`
+            };
+        }
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
+
+    // copy a file or directory into the destination directory
+    public async cp(srcPath: string, destPath: string): Promise<RetType<void>> {
+        return this.transfer(srcPath, destPath, async (src, dest) => {
+            await fs.cp(src, dest, { recursive: true, errorOnExist: true, force: false });
+        });
+    }
+
+    // move a file or directory into the destination directory
+    public async mv(srcPath: string, destPath: string): Promise<RetType<void>> {
+        return this.transfer(srcPath, destPath, async (src, dest) => {
+            try {
+                await fs.rename(src, dest);
+            } catch (error) {
+                // rename cannot move across devices
+                if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+                await fs.cp(src, dest, { recursive: true, errorOnExist: true, force: false });
+                await fs.rm(src, { recursive: true });
+            }
+        });
+    }
+
+    // rename a file or directory in its directory
+    public async rename(targetPath: string, name: string): Promise<RetType<void>> {
+        const virtualPath = this.normalizePath(targetPath);
+        const realPath = this.toRealPath(virtualPath);
+        const destPath = path.join(path.dirname(realPath), name);
+        try {
+            await fs.access(realPath);
+        } catch {
+            return {
+                stat: false,
+                msg: `${virtualPath} not found`
+            };
+        }
+        if (await exists(destPath)) {
+            return {
+                stat: false,
+                msg: `${destPath} already exists`
+            };
+        }
+        try {
+            await fs.rename(realPath, destPath);
+        } catch (error) {
+            return {
+                stat: false,
+                msg: String(error)
+            };
+        }
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
+
+    // open a stream reading the content of a file
+    public async readStream(targetPath: string): Promise<RetType<Readable>> {
+        const entry = await this.entry(targetPath);
+        if (!entry.stat) return entry;
+        if (entry.data.type !== 'file') {
+            return {
+                stat: false,
+                msg: `${this.normalizePath(targetPath)} is not a file`
+            };
+        }
+        return {
+            stat: true,
+            data: createReadStream(this.toRealPath(this.normalizePath(targetPath)))
+        };
+    }
+
+    // write a stream to a file, an existing file is overwritten
+    // size is not needed on local disk, it is taken to match the other file systems
+    public async writeStream(targetPath: string, stream: Readable, size: number): Promise<RetType<void>> {
+        const virtualPath = this.normalizePath(targetPath);
+        const realPath = this.toRealPath(virtualPath);
+        try {
+            await pipeline(stream, createWriteStream(realPath));
+        } catch (error) {
+            // a partly written file is not left behind, e.g. after the copy is cancelled
+            await fs.rm(realPath, { force: true }).catch(() => undefined);
+            return {
+                stat: false,
+                msg: String(error)
+            };
+        }
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
+
+    // check src and the destination directory, then operate on the source and its path in the destination
+    private async transfer(srcPath: string, destPath: string, operate: (src: string, dest: string) => Promise<void>): Promise<RetType<void>> {
+        const srcVirtualPath = this.normalizePath(srcPath);
+        const destVirtualPath = this.normalizePath(destPath);
+        const src = this.toRealPath(srcVirtualPath);
+        const destStat = await this.stat(destVirtualPath);
+        if (!await exists(src)) {
+            return {
+                stat: false,
+                msg: `${srcVirtualPath} not found`
+            };
+        }
+        if (!destStat.stat || !destStat.data.isDirectory) {
+            return {
+                stat: false,
+                msg: `${destVirtualPath} is not a directory`
+            };
+        }
+        const dest = path.join(this.toRealPath(destVirtualPath), path.basename(src));
+        if (await exists(dest)) {
+            return {
+                stat: false,
+                msg: `${dest} already exists`
+            };
+        }
+        try {
+            await operate(src, dest);
+        } catch (error) {
+            return {
+                stat: false,
+                msg: String(error)
+            };
+        }
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
 }
 
 export default LocalFileSystem;
@@ -21,4 +21,9 @@ export function createPanDavClient(auth: PanDavAuth): PanDavClient {
     client.panDavAuth = auth;
     client.getPanDavAuth = () => auth;
     return client;
-}
\ No newline at end of file
+}
+
+// url of a file in pan dav, without credentials
+export function getPanDavFileUrl(path: string): string {
+    return baseUrl + path.split("/").filter(p => p).map(encodeURIComponent).join("/");
+}
@@ -2,6 +2,8 @@ import fs from "fs"
 import crypto from 'crypto';
 import { homedir } from "os";
 import { PanDavAuth } from "@services/pan-dav-api.js"
+import { resolveAccount } from "@services/profile-index.js"
+import { readCredential, writeCredential, deleteCredential, migrateCredential } from "@services/credential-store.js"
 
 const dirPath = `${homedir()}/.reccli-ts`;
 const defaultPath = dirPath + "/pandav-default";
@@ -10,26 +12,38 @@ function getFileName(account: string): string {
     return crypto.createHash('sha256').update(account).digest('hex') + '-pandav';
 }
 
-// read pan-dav auth from file "~/.reccli-ts"
+// no account is the default account, which is the saved account it points to if set
+function getPath(account: string | undefined): string {
+    account = resolveAccount("pandav", account);
+    return account ? `${dirPath}/${getFileName(account)}` : defaultPath;
+}
+
+// read pan-dav auth from file "~/.reccli-ts", encrypted, see credential-store
 function getPanDavAuth(account: string | undefined): PanDavAuth | undefined {
-    const path = account ? `${dirPath}/${getFileName(account)}` : defaultPath;
-    if (!fs.existsSync(path)) return undefined;
-    const panDavAuth = JSON.parse(Buffer.from(fs.readFileSync(path, 'utf8'), 'base64').toString());
-    return panDavAuth;
+    return readCredential<PanDavAuth>(getPath(account));
+}
+
+// whether the credentials of the account are saved, without decrypting them
+function hasPanDavAuth(account: string | undefined): boolean {
+    return fs.existsSync(getPath(account));
 }
 
 function setPanDavAuth(account: string | undefined, panDavAuth: PanDavAuth) {
-    if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath);
-    const path = account ? `${dirPath}/${getFileName(account)}` : defaultPath;
     // save username and password for webdav authentication
-    fs.writeFileSync(path, Buffer.from(JSON.stringify(panDavAuth)).toString('base64'));
+    writeCredential(getPath(account), panDavAuth);
 }
 
+// the file is overwritten before it is removed
 function deletePanDavAuth(account: string | undefined): boolean {
-    const path = account ? `${dirPath}/${getFileName(account)}` : defaultPath;
-    if (!fs.existsSync(path)) return false;
-    fs.unlinkSync(path);
-    return true;
+    return deleteCredential(getPath(account));
+}
+
+// encrypt the files written by older versions, return the number of files encrypted
+function migratePanDavAuth(): number {
+    if (!fs.existsSync(dirPath)) return 0;
+    return fs.readdirSync(dirPath)
+        .filter(name => name === "pandav-default" || /^[0-9a-f]{64}-pandav$/.test(name))
+        .filter(name => migrateCredential(`${dirPath}/${name}`)).length;
 }
 
-export { getPanDavAuth, setPanDavAuth, deletePanDavAuth }
+export { getPanDavAuth, hasPanDavAuth, setPanDavAuth, deletePanDavAuth, migratePanDavAuth }
@@ -1,5 +1,16 @@
 import { PanDavClient } from "./pan-dav-api.js";
 import { FileStat } from "webdav";
+import fs from "fs";
+import { Readable } from "stream";
+import path from "path";
+import { fileURLToPath } from "url";
+import { PauseSignal } from "@utils/pause-signal.js";
+import { MultiWorkerExecutor, WorkerTask, ProgressCallback } from "@utils/worker-utils.js";
+import { PanDavDownloadWorkerData } from "@services/workers/pan-download-worker.js";
+import { PanDavUploadWorkerData } from "@services/workers/pan-upload-worker.js";
+import { createFindMatcher, FindFilter, walkParallel } from "@utils/find-utils.js";
+
+const dirname = path.dirname(fileURLToPath(import.meta.url))
 
 export type RetType<T> =
     { stat: true, data: T } |
@@ -548,6 +559,40 @@ class PanDavFileSystem {
         };
     }
 
+    // find files and folders under src matching all conditions of filter by walking the tree
+    // creator is not known in webdav, so a creator condition matches nothing
+    public async find(src: string, filter: FindFilter): Promise<RetType<PanDavFile[]>> {
+        const targetPath = this.normalizePath(src);
+
+        const ls = await this.ls(targetPath);
+        if (!ls.stat) return ls;
+
+        const matches = createFindMatcher(filter);
+        const data: PanDavFile[] = [];
+        try {
+            // root is a placeholder, only its filename is used
+            const root: PanDavFile = { filename: targetPath, basename: "", lastmod: "", size: 0, type: "folder" };
+            await walkParallel(root, async (folder) => {
+                const contents = await this.client.getDirectoryContents(folder.filename);
+                return ("data" in contents ? contents.data : contents).map(convertFileStat);
+            }, (f) => f.type === "folder", (f) => {
+                if (matches({ name: f.basename, size: f.size, type: f.type, lastModified: f.lastmod })) {
+                    data.push(f);
+                }
+            });
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+
+        return {
+            stat: true,
+            data: data.sort((a, b) => a.filename.localeCompare(b.filename))
+        };
+    }
+
     // check if file/directory exists
     public async exists(src: string): Promise<RetType<boolean>> {
         const targetPath = this.normalizePath(src);
@@ -558,6 +603,217 @@ class PanDavFileSystem {
             data: exists
         };
     }
+
+    // dest must be a folder
+    // download src file to dest folder in local file system
+    public async download(src: string, dest: string, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal): Promise<RetType<void>> {
+        const srcPath = this.normalizePath(src);
+        // if src is root, then download failed
+        if (srcPath === "/") return {
+            stat: false,
+            msg: `cannot download root folder`
+        };
+        // if src does not exist, then download failed
+        if (!await this.client.exists(srcPath)) return {
+            stat: false,
+            msg: `${srcPath} not found`
+        };
+        const stat = await this.client.stat(srcPath);
+        const statData = "data" in stat ? stat.data : stat;
+
+        // remove trailing slash
+        dest = dest.replace(/\/$/, "");
+
+        try {
+            // if dest does not exist, then download failed
+            if (!fs.existsSync(dest)) {
+                throw new Error(`${dest} not found`);
+            }
+
+            // if dest is not a directory, then download failed
+            if (!fs.statSync(dest).isDirectory()) {
+                throw new Error(`${dest} is not a folder`);
+            }
+
+            // if dest is a folder, then download with the name of src
+            dest = dest + "/" + statData.basename;
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+
+        // Check if cancelled before starting download
+        if (abortSignal?.aborted) {
+            return {
+                stat: false,
+                msg: "Download was cancelled"
+            };
+        }
+
+        const isFolder = statData.type === "directory";
+
+        // Use MultiWorkerExecutor for both files and folders
+        const executor = new MultiWorkerExecutor<PanDavDownloadWorkerData>({
+            workerCount: isFolder ? 4 : 1, // Use multiple workers for folders, single for files
+            workerPath: dirname + "/workers/pan-download-worker.js",
+            workerData: {
+                panDavAuth: this.client.getPanDavAuth()
+            },
+            abortSignal,
+            pauseSignal
+        });
+
+        // Construct root task, id is the path in webdav
+        const task: WorkerTask = {
+            id: srcPath,
+            diskType: "cloud", // unused in webdav
+            type: isFolder ? "folder" : "file",
+            path: dest
+        };
+
+        try {
+            // Execute the task using the executor
+            console.error(`[INFO] ${dest}: downloading via MultiWorkerExecutor`);
+            await executor.execute(task, onProgress);
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
+
+    // dest must be a folder
+    // upload src file in local file system to dest folder
+    public async upload(src: string, dest: string, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal): Promise<RetType<void>> {
+        const destPath = this.normalizePath(dest);
+        // if dest is root, then upload failed, only libraries live there
+        if (destPath === "/") return {
+            stat: false,
+            msg: `cannot upload to root folder`
+        };
+        // if dest does not exist, then upload failed
+        if (!await this.client.exists(destPath)) return {
+            stat: false,
+            msg: `${destPath} not found`
+        };
+        // if dest is not a folder, then upload failed
+        const stat = await this.client.stat(destPath);
+        if (("data" in stat ? stat.data : stat).type !== "directory") return {
+            stat: false,
+            msg: `${destPath} is not a folder`
+        };
+
+        // remove trailing slash
+        src = src.replace(/\/$/, "");
+
+        // if src does not exist, then upload failed
+        if (!fs.existsSync(src)) return {
+            stat: false,
+            msg: `${src} not found`
+        };
+
+        // Check if cancelled before starting upload
+        if (abortSignal?.aborted) {
+            return {
+                stat: false,
+                msg: "Upload was cancelled"
+            };
+        }
+
+        const isFolder = fs.statSync(src).isDirectory();
+
+        // Use MultiWorkerExecutor for both files and folders
+        const executor = new MultiWorkerExecutor<PanDavUploadWorkerData>({
+            workerCount: isFolder ? 4 : 1, // Use multiple workers for folders, single for files
+            workerPath: dirname + "/workers/pan-upload-worker.js",
+            workerData: {
+                panDavAuth: this.client.getPanDavAuth()
+            },
+            abortSignal,
+            pauseSignal
+        });
+
+        // Construct root task, id is the parent folder in webdav
+        const task: WorkerTask = {
+            id: destPath,
+            diskType: "cloud", // unused in webdav
+            type: isFolder ? "folder" : "file",
+            path: src
+        };
+
+        try {
+            // Execute the task using the executor
+            console.error(`[INFO] ${src}: uploading via MultiWorkerExecutor`);
+            await executor.execute(task, onProgress);
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
+
+    // open a stream reading the content of the file src
+    public async readStream(src: string): Promise<RetType<Readable>> {
+        const srcPath = this.normalizePath(src);
+        const stat = await this.stat(srcPath);
+        if (!stat.stat) return stat;
+        if (stat.data.type !== "file") return {
+            stat: false,
+            msg: `${srcPath} is not a file`
+        };
+        return {
+            stat: true,
+            data: this.client.createReadStream(srcPath)
+        };
+    }
+
+    // write size bytes of stream as the file dest, the folder of dest must exist
+    public async writeStream(dest: string, stream: Readable, size: number): Promise<RetType<void>> {
+        const destPath = this.normalizePath(dest);
+        const [parentDir] = this.splitPath(destPath);
+        // only libraries live in root
+        if (parentDir === "/") return {
+            stat: false,
+            msg: `cannot upload to root folder`
+        };
+        if (!await this.client.exists(parentDir)) return {
+            stat: false,
+            msg: `${parentDir} not found`
+        };
+
+        try {
+            await this.client.putFileContents(destPath, stream, {
+                contentLength: size,
+                overwrite: true
+            });
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        } finally {
+            stream.destroy();
+        }
+
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
 };
 
 export default PanDavFileSystem;
\ No newline at end of file
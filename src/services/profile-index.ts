@@ -0,0 +1,39 @@
+import fs from "fs"
+import { homedir } from "os";
+
+const dirPath = `${homedir()}/.reccli-ts`;
+// credential files are named by the hash of the account, so the account names are kept here
+const indexPath = dirPath + "/profiles";
+
+// "rec" for Rec accounts, "pandav" for Pan WebDav accounts
+export type ProfileKind = "rec" | "pandav";
+
+export type ProfileIndex = {
+    rec: string[],
+    pandav: string[],
+    // the saved accounts used when no account is given, see setDefault in profile-manager
+    defaults: { [kind in ProfileKind]?: string }
+};
+
+function readIndex(): ProfileIndex {
+    const index: ProfileIndex = { rec: [], pandav: [], defaults: {} };
+    if (!fs.existsSync(indexPath)) return index;
+    try {
+        return { ...index, ...JSON.parse(fs.readFileSync(indexPath, 'utf8')) };
+    } catch {
+        // a broken index only loses the names, the credentials are still there
+        return index;
+    }
+}
+
+function writeIndex(index: ProfileIndex) {
+    if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath);
+    fs.writeFileSync(indexPath, JSON.stringify(index));
+}
+
+// the account the default account points to, undefined for the credentials saved as the default account itself
+function resolveAccount(kind: ProfileKind, account: string | undefined): string | undefined {
+    return account ?? readIndex().defaults[kind];
+}
+
+export { readIndex, writeIndex, resolveAccount }
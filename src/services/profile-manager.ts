@@ -0,0 +1,108 @@
+import * as userAuthSaver from "@services/rec-user-auth-saver.js";
+import * as panDavAuthSaver from "@services/pan-dav-auth-saver.js";
+import { ProfileKind, readIndex, resolveAccount, writeIndex } from "@services/profile-index.js";
+
+export type { ProfileKind };
+
+export type Profile = {
+    kind: ProfileKind,
+    // undefined for the default account
+    account?: string
+}
+
+// "valid": the token has not expired, "refreshable": the token has expired but can be refreshed,
+// "expired": both tokens have expired, login again, "unknown": saved by an older version without expiry times,
+// "password": WebDav credentials never expire, "locked": cannot be decrypted with the current passphrase or key file
+export type ProfileStatus = {
+    status: "valid" | "refreshable" | "expired" | "unknown" | "password" | "locked",
+    // when the status changes, in milliseconds since epoch
+    expires?: number
+}
+
+function hasAuth(kind: ProfileKind, account: string | undefined): boolean {
+    return kind === "rec" ? userAuthSaver.hasUserAuth(account) : panDavAuthSaver.hasPanDavAuth(account);
+}
+
+// remember the name of an account with saved credentials, the default account has no name
+function addProfile(kind: ProfileKind, account: string | undefined) {
+    if (!account) return;
+    const index = readIndex();
+    if (index[kind].includes(account)) return;
+    index[kind].push(account);
+    writeIndex(index);
+}
+
+// forget the name of an account, the default account no longer points to it
+function removeProfile(kind: ProfileKind, account: string | undefined) {
+    if (!account) return;
+    const index = readIndex();
+    if (!index[kind].includes(account) && index.defaults[kind] !== account) return;
+    index[kind] = index[kind].filter(a => a !== account);
+    if (index.defaults[kind] === account) delete index.defaults[kind];
+    writeIndex(index);
+}
+
+// saved accounts, the default account first, accounts whose credentials are gone are left out
+function listProfiles(kind?: ProfileKind): Profile[] {
+    const index = readIndex();
+    const kinds: ProfileKind[] = kind ? [kind] : ["rec", "pandav"];
+    return kinds.flatMap(kind => [undefined, ...index[kind]]
+        .filter(account => hasAuth(kind, account))
+        .map(account => ({ kind, account })));
+}
+
+// the saved account the default account points to, undefined if not set
+function getDefault(kind: ProfileKind): string | undefined {
+    return readIndex().defaults[kind];
+}
+
+// let the default account point to a saved account, its credentials are not copied,
+// so tokens refreshed through either name are saved once
+// return false if the account is not saved
+function setDefault(kind: ProfileKind, account: string): boolean {
+    if (!hasAuth(kind, account)) return false;
+    const index = readIndex();
+    if (!index[kind].includes(account)) index[kind].push(account);
+    index.defaults[kind] = account;
+    writeIndex(index);
+    return true;
+}
+
+// remove the saved credentials of an account and forget its name
+// return false if the account is not saved
+// the default account removes the account it points to
+function removeAccount(kind: ProfileKind, account: string | undefined): boolean {
+    account = resolveAccount(kind, account);
+    const removed = kind === "rec" ? userAuthSaver.deleteUserAuth(account) : panDavAuthSaver.deletePanDavAuth(account);
+    removeProfile(kind, account);
+    return removed;
+}
+
+function getProfileStatus(profile: Profile): ProfileStatus {
+    if (profile.kind === "pandav") {
+        try {
+            panDavAuthSaver.getPanDavAuth(profile.account);
+        } catch {
+            return { status: "locked" };
+        }
+        return { status: "password" };
+    }
+
+    let userAuth;
+    try {
+        userAuth = userAuthSaver.getUserAuth(profile.account);
+    } catch {
+        return { status: "locked" };
+    }
+    const { authTokenExpires, refreshTokenExpires } = userAuth ?? {};
+    const now = Date.now();
+    if (authTokenExpires !== undefined && authTokenExpires > now) {
+        return { status: "valid", expires: authTokenExpires };
+    }
+    if (refreshTokenExpires !== undefined) {
+        return refreshTokenExpires > now ? { status: "refreshable", expires: refreshTokenExpires } : { status: "expired", expires: refreshTokenExpires };
+    }
+    return { status: authTokenExpires !== undefined ? "refreshable" : "unknown" };
+}
+
+export { addProfile, removeProfile, listProfiles, getDefault, setDefault, resolveAccount, removeAccount, getProfileStatus }
@@ -2,6 +2,24 @@ import axios, { AxiosRequestConfig, HttpStatusCode } from "axios";
 import crypto from "crypto";
 import fs, { Stats } from "fs";
 import path from "path";
+import * as uploadJournal from "@services/rec-upload-journal.js";
+import * as fingerprintCache from "@services/rec-fingerprint-cache.js";
+import { PauseSignal } from "@utils/pause-signal.js";
+import { ProgressCallback, ProgressRateMeter } from "@utils/stream-utils.js";
+
+// source of an upload, read chunk by chunk
+export type UploadSource = {
+    // file name in rec
+    name: string,
+    // identity of the source, e.g. the absolute local path
+    key: string,
+    // the upload journal is stale if size or mtime changes
+    size: number,
+    mtimeMs: number,
+    read: (start: number, length: number) => Promise<Buffer>,
+    // false for a source read once from the start, e.g. a stream, no journal is kept as it cannot be resumed
+    resumable?: boolean
+}
 
 export type ActionType = "recycle" | "delete" | "restore" | "move" | "copy";
 export type FileType = "file" | "folder";
@@ -13,15 +31,23 @@ export type ResponseType<T> = {
     entity: T
 }
 export type RequestConfig = AxiosRequestConfig & {
-    token?: boolean
+    token?: boolean,
+    // the request refreshing the token, it is not held back by the refresh itself
+    refresh?: boolean
 };
 
+// a token expiring within this time is refreshed before the request
+const tokenRefreshMargin = 60 * 1000;
+
 export type UserAuth = {
     gid: string,
     username: string,
     name: string,
     authToken: string,
-    refreshToken: string
+    refreshToken: string,
+    // expiry times in milliseconds since epoch by the local clock, unknown for tokens saved by older versions
+    authTokenExpires?: number,
+    refreshTokenExpires?: number
 }
 
 export type RecAuth = {
@@ -311,6 +337,8 @@ export type EntityType = {
             lock_reason: string,
             share_count: number,
             last_update_date: string,
+            // only returned by some versions of the server
+            created_date?: string,
             parent_path_number: string,
             review_status: string,
             version_id: string,
@@ -344,6 +372,8 @@ export type EntityType = {
                 timezone_type: number,
                 timezone: string
             },
+            // only returned by some versions of the server
+            created_date?: string,
             parent_path_number: string,
             review_status: string,
             version_id: string,
@@ -388,6 +418,36 @@ export type EntityType = {
     }
 }
 
+// the server writes its times in this offset without saying so, see the timezone of last_update_date of folders
+const serverTimeOffset = "+08:00";
+
+// convert a time written by the server to milliseconds since epoch, NaN if it is not a time
+// times without a timezone are in the timezone of the server, not of this machine
+export function parseRecTime(time: string): number {
+    const match = time.trim().match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)$/);
+    return Date.parse(match ? `${match[1]}T${match[2]}${serverTimeOffset}` : time);
+}
+
+// convert an expire time of the server to milliseconds since epoch by the local clock
+// it may be a date or a timestamp, compared with the server time to correct the clock,
+// or a number of seconds from now
+function parseExpireTime(expireTime: string, systemTime: string): number | undefined {
+    const toMs = (time: string): number | undefined => {
+        if (/^\d+$/.test(time)) {
+            const n = Number(time);
+            return n > 1e12 ? n : n > 1e9 ? n * 1000 : undefined;
+        }
+        const ms = Date.parse(time);
+        return Number.isNaN(ms) ? undefined : ms;
+    };
+    const expire = toMs(expireTime);
+    const system = toMs(systemTime);
+    if (expire !== undefined) {
+        return system !== undefined ? Date.now() + expire - system : expire;
+    }
+    return /^\d+$/.test(expireTime) ? Date.now() + Number(expireTime) * 1000 : undefined;
+}
+
 class RecAPI {
     private readonly baseUrl: string = "https://recapi.ustc.edu.cn/api/v2";
     private readonly aesKey = Buffer.from("Z1pNbFZmMmVqd2wwVmlHNA==", "base64").toString("utf-8");
@@ -396,6 +456,10 @@ class RecAPI {
 
     private recAuth?: RecAuth;
     private userAuth!: UserAuth;
+    // the refresh in progress, shared by the requests waiting for it
+    private refreshing?: Promise<void>;
+    // called with the new tokens after refreshedCallback, see onRefreshed
+    private refreshListeners = new Set<(userAuth: UserAuth) => void>();
 
     /**
      * Create a RecAPI instance
@@ -408,7 +472,10 @@ class RecAPI {
         // callback when token refreshed
         private refreshedCallback?: (userAuth: UserAuth) => void,
         // init with recAuth
-        initRecAuth?: RecAuth
+        initRecAuth?: RecAuth,
+        // get new tokens from elsewhere instead of refreshing them here, e.g. from the main thread in a worker,
+        // called with the rejected or expiring tokens
+        private refresher?: (userAuth: UserAuth) => Promise<UserAuth>
     ) {
         if (initUserAuth) this.userAuth = initUserAuth;
         if (initRecAuth) this.recAuth = initRecAuth;
@@ -422,6 +489,45 @@ class RecAPI {
         return this.userAuth;
     }
 
+    /**
+     * Replace the tokens by ones refreshed elsewhere, e.g. in a worker
+     * @param userAuth new user auth
+     * @param notify whether to call refreshedCallback and the listeners as if refreshed here
+     */
+    public updateUserAuth(userAuth: UserAuth, notify: boolean = true): void {
+        this.userAuth = { ...userAuth };
+        if (notify) this.notifyRefreshed();
+    }
+
+    /**
+     * Listen to new tokens, from login or refresh
+     * @param listener called with the new user auth
+     * @returns function to stop listening
+     */
+    public onRefreshed(listener: (userAuth: UserAuth) => void): () => void {
+        this.refreshListeners.add(listener);
+        return () => this.refreshListeners.delete(listener);
+    }
+
+    /**
+     * Refresh the token, concurrent calls share one refresh, see refresher
+     */
+    public refresh(): Promise<void> {
+        this.refreshing ??= (this.refresher ? this.refreshElsewhere(this.refresher) : this.refreshToken())
+            .finally(() => this.refreshing = undefined);
+        return this.refreshing;
+    }
+
+    private async refreshElsewhere(refresher: (userAuth: UserAuth) => Promise<UserAuth>): Promise<void> {
+        const userAuth = await refresher(this.userAuth);
+        this.updateUserAuth(userAuth);
+    }
+
+    private notifyRefreshed(): void {
+        if (this.refreshedCallback) this.refreshedCallback(this.userAuth);
+        this.refreshListeners.forEach(listener => listener(this.userAuth));
+    }
+
     /**
      * Get RecAuth
      * @returns RecAuth if exists, otherwise undefined
@@ -443,6 +549,12 @@ class RecAPI {
         // if needs token, then add token to header
         if (hasToken) {
             if (!this.userAuth) throw new Error('User not authenticated');
+            // refresh a token about to expire instead of waiting for a 401
+            const expires = this.userAuth.authTokenExpires;
+            if (!config.refresh && (this.refreshing || (expires !== undefined && expires - Date.now() < tokenRefreshMargin))) {
+                // if it fails, the request is tried with the old token and refreshed again on a 401
+                await this.refresh().catch(() => undefined);
+            }
             if (!config.headers) config.headers = {};
             config.headers['X-auth-token'] = this.userAuth.authToken;
         }
@@ -453,8 +565,8 @@ class RecAPI {
         res = res.data;
 
         // check token expired (401)
-        if (hasToken && res.status_code === HttpStatusCode.Unauthorized) {
-            await this.refreshToken();
+        if (hasToken && !config.refresh && res.status_code === HttpStatusCode.Unauthorized) {
+            await this.refresh();
             res = await this.request(config);
         }
 
@@ -519,7 +631,8 @@ class RecAPI {
             data: {
                 clientid: this.clientID,
                 refresh_token: this.userAuth.refreshToken
-            }
+            },
+            refresh: true
         });
 
         if (res.status_code !== HttpStatusCode.Ok) {
@@ -536,7 +649,9 @@ class RecAPI {
 
         this.userAuth.authToken = msg_server.x_auth_token;
         this.userAuth.refreshToken = msg_server.refresh_token;
-        if (this.refreshedCallback) this.refreshedCallback(this.userAuth);
+        this.userAuth.authTokenExpires = parseExpireTime(msg_server.authtoken_expire_time, msg_server.system_time);
+        this.userAuth.refreshTokenExpires = parseExpireTime(msg_server.refreshtoken_expire_time, msg_server.system_time);
+        this.notifyRefreshed();
     }
 
     private pad(m: Buffer): Buffer {
@@ -596,10 +711,12 @@ class RecAPI {
             username: msg_server.username,
             name: msg_server.name,
             authToken: msg_server.x_auth_token,
-            refreshToken: msg_server.refresh_token
+            refreshToken: msg_server.refresh_token,
+            authTokenExpires: parseExpireTime(msg_server.authtoken_expire_time, msg_server.system_time),
+            refreshTokenExpires: parseExpireTime(msg_server.refreshtoken_expire_time, msg_server.system_time)
         };
         this.recAuth = { username, password }
-        if (this.refreshedCallback) this.refreshedCallback(this.userAuth);
+        this.notifyRefreshed();
     }
 
     /**
@@ -652,7 +769,28 @@ class RecAPI {
         return res.entity;
     }
 
-    private calcFingerprint(filePath: string): Promise<string> {
+    /**
+     * Calculate the Rec multi-part md5 fingerprint of a local file
+     * Unchanged files are looked up in the local fingerprint cache instead of rehashing
+     * @param filePath local file path
+     */
+    public async calcFingerprint(filePath: string): Promise<string> {
+        const stat = await fs.promises.stat(filePath);
+        const absPath = path.resolve(filePath);
+
+        const cached = fingerprintCache.getFingerprint(absPath, stat.size, stat.mtimeMs);
+        if (cached) return cached;
+
+        const fingerprint = await this.hashFile(filePath);
+        fingerprintCache.setFingerprint(absPath, {
+            size: stat.size,
+            mtimeMs: stat.mtimeMs,
+            fingerprint
+        });
+        return fingerprint;
+    }
+
+    private hashFile(filePath: string): Promise<string> {
         const chunkSize = 64 * 1024 * 1024; // 64MB
 
         if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
@@ -690,12 +828,18 @@ class RecAPI {
 
     /**
      * Upload file to folder by folder id
+     * Acknowledged chunks are recorded in a journal, so a retry or a rerun
+     * after a crash only sends the chunks that are still missing
      * @param folderId folder id
      * @param filePath upload file path
      * @param diskType cloud: personal cloud, backup: backup directory
      * @param groupId group id
+     * @param fingerprint fingerprint of the file, lets the server skip files it already has
+     * @param onProgress callback reporting uploaded bytes of the file, counted per acknowledged chunk
+     * @param abortSignal signal to cancel the upload
+     * @param pauseSignal signal to pause the upload between chunks
      */
-    public async uploadByFolderId(folderId: string, filePath: string, diskType: DiskType, groupId?: string): Promise<void> {
+    public async uploadByFolderId(folderId: string, filePath: string, diskType: DiskType, groupId?: string, fingerprint?: string, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal): Promise<void> {
         let fileStat: Stats;
         try {
             fileStat = fs.statSync(filePath);
@@ -708,6 +852,36 @@ class RecAPI {
             throw err;
         }
 
+        const fileHandle = await fs.promises.open(filePath, "r");
+        try {
+            await this.uploadSourceByFolderId(folderId, {
+                name: path.basename(filePath),
+                key: path.resolve(filePath),
+                size: fileStat.size,
+                mtimeMs: fileStat.mtimeMs,
+                read: async (start, length) => {
+                    const chunk = Buffer.alloc(length);
+                    await fileHandle.read(chunk, 0, length, start);
+                    return chunk;
+                }
+            }, diskType, groupId, fingerprint, onProgress, abortSignal, pauseSignal);
+        } finally {
+            await fileHandle.close();
+        }
+    }
+
+    /**
+     * Upload a source read chunk by chunk to folder by folder id
+     * @param folderId folder id
+     * @param source upload source, e.g. a local file or a webdav file
+     * @param diskType cloud: personal cloud, backup: backup directory
+     * @param groupId group id
+     * @param fingerprint fingerprint of the file, lets the server skip files it already has
+     * @param onProgress callback reporting uploaded bytes of the file, counted per acknowledged chunk
+     * @param abortSignal signal to cancel the upload
+     * @param pauseSignal signal to pause the upload between chunks
+     */
+    public async uploadSourceByFolderId(folderId: string, source: UploadSource, diskType: DiskType, groupId?: string, fingerprint?: string, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal): Promise<void> {
         // response differs by status_code
         type ResponseType = {
             status_code: 200
@@ -724,60 +898,120 @@ class RecAPI {
             method: "GET",
             url: `/file/${folderId}`,
             params: {
-                file_name: path.basename(filePath),
-                byte: fileStat.size,
+                file_name: source.name,
+                byte: source.size,
                 storage: "moss",
                 disk_type: diskType,
                 group_number: groupId,
-                // too slow for javascript !!!
-                // fingerprint: await this.calcFingerprint(filePath)
+                // too slow for javascript to calculate on every upload, so it's opt-in
+                fingerprint: fingerprint
             }
         }) as ResponseType;
 
+        // journal is identified by the destination and the source
+        const journalKey = source.resumable === false ? undefined : `${diskType}:${groupId ?? ""}:${folderId}:${source.key}`;
+        const saveJournal = (journal: uploadJournal.UploadJournal) => { if (journalKey) uploadJournal.setUploadJournal(journalKey, journal); };
+
         if (res.status_code === HttpStatusCode.Created) {
+            if (fingerprint) console.error(`[INFO] ${source.key}: server already has the content, no bytes transferred`);
+            if (journalKey) uploadJournal.deleteUploadJournal(journalKey);
+            onProgress?.(source.size, 0);
             return;
         }
 
         const uploadToken = res.entity.upload_token;
         const uploadChunkSize = Number(res.entity.upload_chunk_size);
+
+        // resume only if the server hands back the same upload session for an unchanged file
+        let journal = journalKey ? uploadJournal.getUploadJournal(journalKey) : undefined;
+        if (!journal || journal.uploadToken !== uploadToken || journal.size !== source.size || journal.mtimeMs !== source.mtimeMs) {
+            // chunks of another session are not known to the server, the file is unchanged but starts over
+            if (journal && journal.uploadedChunks.length > 0 && journal.size === source.size && journal.mtimeMs === source.mtimeMs) {
+                console.error(`[INFO] ${source.key}: cannot resume upload, the server started a new upload session, ${journal.uploadedChunks.length} uploaded chunks are uploaded again`);
+            }
+            journal = {
+                size: source.size,
+                mtimeMs: source.mtimeMs,
+                uploadToken: uploadToken,
+                uploadedChunks: []
+            };
+            saveJournal(journal);
+        } else if (journal.uploadedChunks.length > 0) {
+            console.error(`[INFO] ${source.key}: resuming upload, ${journal.uploadedChunks.length}/${res.entity.upload_params.length} chunks already uploaded`);
+        }
+        const uploadedChunks = new Set(journal.uploadedChunks);
+        const chunkLength = (idx: number) => Math.max(0, Math.min(uploadChunkSize, source.size - idx * uploadChunkSize));
+
+        // progress starts from the chunks uploaded before
+        const alreadyUploaded = [...uploadedChunks].reduce((sum, idx) => sum + chunkLength(idx), 0);
+        onProgress?.(alreadyUploaded, 0);
         
-        // 2 upload file
-        const fileStream = fs.createReadStream(filePath, { highWaterMark: uploadChunkSize });
-        const uploadRequests = new Set();
+        // 2 upload missing chunks
+        const meter = new ProgressRateMeter(onProgress, alreadyUploaded);
+        const uploadRequests = new Set<Promise<void>>();
         // upload size of one promise is 64MB
         // to avoid OOM, limit the max concurrent upload size to 512MB
         const concurrentLimit = 8;
-        let idx = 0;
-        for await (const chunk of fileStream) {
-            const uploadParams = res.entity.upload_params[idx++];
-            if (!uploadParams) break;
+        try {
+            for (let idx = 0; idx < res.entity.upload_params.length; idx++) {
+                if (uploadedChunks.has(idx)) continue;
 
-            const uploadUrl = uploadParams[1].value;
-            const uploadMethod = uploadParams[2].value;
+                // wait while paused, chunks in flight are allowed to finish
+                while (pauseSignal?.paused && !abortSignal?.aborted) {
+                    await new Promise(resolve => setTimeout(resolve, 100));
+                }
+                if (abortSignal?.aborted) {
+                    throw new Error("Upload was cancelled");
+                }
 
-            if (uploadRequests.size >= concurrentLimit) {
-                // wait for a finished request
-                await Promise.race(uploadRequests);
-            }
+                const start = idx * uploadChunkSize;
+                const length = chunkLength(idx);
+                if (length <= 0) break;
 
-            const uploadRequest = this.request({
-                method: uploadMethod,
-                url: uploadUrl,
-                data: chunk,
-            });
+                const uploadParams = res.entity.upload_params[idx];
+                const uploadUrl = uploadParams[1].value;
+                const uploadMethod = uploadParams[2].value;
 
-            uploadRequest.finally(() => {
-                // remove the request from the set when it's finished
-                uploadRequests.delete(uploadRequest);
-            });
+                if (uploadRequests.size >= concurrentLimit) {
+                    // wait for a finished request
+                    await Promise.race(uploadRequests);
+                }
+
+                const chunk = await source.read(start, length);
+
+                const uploadRequest: Promise<void> = this.request({
+                    method: uploadMethod,
+                    url: uploadUrl,
+                    data: chunk,
+                    signal: abortSignal
+                }).then(() => {
+                    // record the acknowledged chunk
+                    journal.uploadedChunks.push(idx);
+                    saveJournal(journal);
+                    meter.add(length);
+                }).finally(() => {
+                    // remove the request from the set when it's finished
+                    uploadRequests.delete(uploadRequest);
+                });
 
-            uploadRequests.add(uploadRequest);
+                // the rejection is handled by the race or all below, but the loop may be awaiting the next read when it happens
+                uploadRequest.catch(() => { });
+                uploadRequests.add(uploadRequest);
+            }
+
+            // wait for all upload requests to complete
+            await Promise.all(uploadRequests);
+        } finally {
+            // settle requests still in flight before releasing the source
+            await Promise.allSettled(uploadRequests);
+            // release memory used by upload requests
+            uploadRequests.clear();
+            meter.stop();
         }
 
-        // wait for all upload requests to complete
-        await Promise.all(uploadRequests);
-        // release memory used by upload requests
-        uploadRequests.clear();
+        if (abortSignal?.aborted) {
+            throw new Error("Upload was cancelled");
+        }
 
         // 3. upload complete
         const res2 = await this.request({
@@ -791,6 +1025,9 @@ class RecAPI {
         if (res2.status_code !== HttpStatusCode.Ok) {
             throw new Error(`Failed to upload by folder id: ${res2.message}`);
         }
+
+        if (journalKey) uploadJournal.deleteUploadJournal(journalKey);
+        meter.finish();
     }
 
     /**
@@ -1,21 +1,58 @@
-import RecAPI, { FileType } from "@services/rec-api.js";
-import RecFileSystem from "@services/rec-file-system.js";
+import RecAPI, { FileType, UserAuth } from "@services/rec-api.js";
+import RecFileSystem, { RecFile, SyncMode } from "@services/rec-file-system.js";
 import readline, { CompleterResult, Interface } from "readline";
 import { exit } from "process";
 import { resolveFullPath, resolvePanDavFullPath, resolveRecFullPath } from "@utils/path-resolver.js";
 import { TableFormatter } from "@utils/table-formatter.js";
-import { byteToSize } from "@utils/byte-to-size.js";
+import { byteToRate, byteToSize } from "@utils/byte-to-size.js";
 import fs from "fs";
 import { RecFileCache } from "@services/rec-file-cache.js";
+import * as recHistory from "@services/rec-history.js";
 import { Readable, Writable } from "stream";
-import { parseShellCommand, escapeToShell, unescapeFromShell } from "@utils/shell-parser.js";
-import { PanDavClient } from "./pan-dav-api.js";
+import { parseShellCommand, parseShellPatterns, escapePathToShell, parseOptions, parseAliasDefinition } from "@utils/shell-parser.js";
+import { escapeGlob, expandGlob, GlobLister, isGlob, unescapeGlob } from "@utils/glob.js";
+import { parseScript } from "@utils/script-parser.js";
+import * as recRc from "@services/rec-rc.js";
+import * as userAuthSaver from "@services/rec-user-auth-saver.js";
+import * as panDavAuthSaver from "@services/pan-dav-auth-saver.js";
+import * as profileManager from "@services/profile-manager.js";
+import { FindFilter, parseFindSize } from "@utils/find-utils.js";
+import { createPanDavClient, PanDavAuth, PanDavClient } from "./pan-dav-api.js";
 import PanDavFileSystem from "./pan-dav-file-system.js";
+import LocalFileSystem from "./local-file-system.js";
+import { copyBetween, LocalBackend, moveBetween, PanDavBackend, parseStoragePath, RecBackend, RetType, StorageBackend, StoragePath, storageSchemes } from "@services/storage-backend.js";
+import { PauseSignal } from "@utils/pause-signal.js";
+import { MutableOutput } from "@utils/stream-utils.js";
+import { CommandResult, formatDelimited, isOutputFormat, OutputFormat, outputFormats } from "@utils/output-formatter.js";
+
+// "rfs" means the path is in the rec file system, "fs" means the path is in the local file system, "pfs" means the path is in the pan dav file system
+type PathType = "rfs" | "fs" | "pfs";
 
 type Command = {
     desc: string,
     usage: string,
-    args: number
+    args: number,
+    // file systems of the arguments in which glob patterns are expanded, the last one is for the last argument
+    paths?: PathType[],
+    // whether the first argument can be given more than once, the command runs once for each
+    multiple?: boolean,
+    // whether a command with multiple sources takes them all at once instead of running once for each
+    batch?: boolean,
+    // options taking the next argument as their value, the value is kept as a glob pattern
+    valueOptions?: string[],
+    // whether the command writes paths that can be piped into another command
+    output?: boolean
+}
+
+// a Rec account used in this shell, kept so that switching back keeps its current folder
+type RecProfile = {
+    rfs: RecFileSystem,
+    rfc: RecFileCache
+}
+
+type PanDavProfile = {
+    client: PanDavClient,
+    pfs: PanDavFileSystem
 }
 
 type CompletionResult = {
@@ -26,99 +63,138 @@ type CompletionResult = {
 
 const commands: { [key: string]: Command } = {
     ls: {
-        desc: "list files and folders in the given folder, default is current folder",
-        usage: "ls [folder]",
-        args: 1
+        desc: "list files and folders in the given folder, default is current folder, -i shows ids",
+        usage: "ls [-i] [folder...]",
+        args: 1,
+        paths: ["rfs"],
+        multiple: true
     },
     lsp: {
         desc: "list files and folders in plain format in the given folder, default is current folder",
-        usage: "lsp [folder]",
-        args: 1
+        usage: "lsp [folder...]",
+        args: 1,
+        paths: ["rfs"],
+        multiple: true
     },
     lsw: {
         desc: "list files and folders in the given folder in pan dav",
-        usage: "lsw <folder>",
-        args: 1
+        usage: "lsw <folder>...",
+        args: 1,
+        paths: ["pfs"],
+        multiple: true
     },
     cd: {
         desc: "change current folder to the given folder, default is root folder",
         usage: "cd [folder]",
-        args: 1
+        args: 1,
+        paths: ["rfs"]
     },
     cdw: {
         desc: "change current folder to the given folder in pan dav, default is root folder",
         usage: "cdw [folder]",
-        args: 1
+        args: 1,
+        paths: ["pfs"]
     },
     cp: {
-        desc: "copy file or folder to another folder in the same cloud or group",
-        usage: "cp <file|folder> <folder>",
-        args: 2
+        desc: "copy file or folder to another folder, across cloud, backup and groups if permitted, --to copies into a folder of another saved account",
+        usage: "cp [--to <account|default>] <file|folder>... <folder>",
+        args: 2,
+        paths: ["rfs", "rfs"],
+        multiple: true,
+        batch: true,
+        valueOptions: ["--to"]
     },
     cpw: {
         desc: "copy file or folder to another folder in pan dav",
-        usage: "cpw <file|folder> <folder>",
-        args: 2
+        usage: "cpw <file|folder>... <folder>",
+        args: 2,
+        paths: ["pfs", "pfs"],
+        multiple: true
     },
     mv: {
-        desc: "move file or folder to another folder in the same cloud or group",
-        usage: "mv <file|folder> <folder>",
-        args: 2
+        desc: "move file or folder to another folder, across cloud, backup and groups if permitted",
+        usage: "mv <file|folder>... <folder>",
+        args: 2,
+        paths: ["rfs", "rfs"],
+        multiple: true,
+        batch: true
     },
     mvw: {
         desc: "move file or folder to another folder in pan dav",
-        usage: "mvp <file|folder> <folder>",
-        args: 2
+        usage: "mvw <file|folder>... <folder>",
+        args: 2,
+        paths: ["pfs", "pfs"],
+        multiple: true
     },
     rm: {
         desc: "remove file or folder in the cloud or group",
-        usage: "rm <file|folder>",
-        args: 1
+        usage: "rm <file|folder>...",
+        args: 1,
+        paths: ["rfs"],
+        multiple: true,
+        batch: true
     },
     rmw: {
         desc: "remove file or folder in pan dav",
-        usage: "rm <file|folder>",
-        args: 1
+        usage: "rmw <file|folder>...",
+        args: 1,
+        paths: ["pfs"],
+        multiple: true
     },
     mkdir: {
         desc: "create a new folder",
-        usage: "mkdir <folder>",
-        args: 1
+        usage: "mkdir <folder>...",
+        args: 1,
+        multiple: true
     },
     mkdirw: {
         desc: "create a new folder in pan dav",
-        usage: "mkdirw <folder>",
-        args: 1
+        usage: "mkdirw <folder>...",
+        args: 1,
+        multiple: true
     },
     rmdir: {
         desc: "remove the folder",
-        usage: "rmdir <folder>",
-        args: 1
+        usage: "rmdir <folder>...",
+        args: 1,
+        paths: ["rfs"],
+        multiple: true
     },
     rmdirw: {
         desc: "remove the folder in pan dav",
-        usage: "rmdirw <folder>",
-        args: 1
+        usage: "rmdirw <folder>...",
+        args: 1,
+        paths: ["pfs"],
+        multiple: true
     },
     unwrap: {
         desc: "unwrap a folder, move all files and folders in the folder to the parent folder",
-        usage: "unwrap <folder>",
-        args: 1
+        usage: "unwrap <folder>...",
+        args: 1,
+        paths: ["rfs"],
+        multiple: true
     },
     unwrapw: {
         desc: "unwrap a folder in pan dav, move all files and folders in the folder to the parent folder",
-        usage: "unwrapw <folder>",
-        args: 1
+        usage: "unwrapw <folder>...",
+        args: 1,
+        paths: ["pfs"],
+        multiple: true
     },
     recycle: {
         desc: "move file or folder from cloud to recycle bin",
-        usage: "recycle <file|folder>",
-        args: 1
+        usage: "recycle <file|folder>...",
+        args: 1,
+        paths: ["rfs"],
+        multiple: true,
+        batch: true
     },
     restore: {
         desc: "restore file or folder in recycle bin to a folder in the cloud",
-        usage: "restore /recycle/<file|folder> <folder>",
-        args: 2
+        usage: "restore /recycle/<file|folder>... <folder>",
+        args: 2,
+        paths: ["rfs", "rfs"],
+        multiple: true
     },
     rename: {
         desc: "rename file or folder",
@@ -131,24 +207,75 @@ const commands: { [key: string]: Command } = {
         args: 2
     },
     upload: {
-        desc: "upload file or folder from disk to cloud",
-        usage: "upload <file|folder> <folder>",
-        args: 2
+        desc: "upload file or folder from disk to cloud, --fingerprint lets the server skip files it already has, --verify checks uploaded files and --retransfer uploads mismatched ones again",
+        usage: "upload [--fingerprint] [--verify [--retransfer]] <file|folder>... <folder>",
+        args: 2,
+        paths: ["fs", "rfs"],
+        multiple: true
     },
     download: {
-        desc: "download file or folder from cloud to disk",
-        usage: "download <file|folder> <folder>",
-        args: 2
+        desc: "download file or folder from cloud to disk, --verify checks downloaded files and --retransfer downloads mismatched ones again",
+        usage: "download [--verify [--retransfer]] <file|folder>... <folder>",
+        args: 2,
+        paths: ["rfs", "fs"],
+        multiple: true
     },
     transfer: {
-        desc: "transfer file or folder from rec to pan",
-        usage: "transfer <file|folder> <folder>",
-        args: 2
+        desc: "transfer file or folder from rec to pan, --verify checks transferred files and --retransfer transfers mismatched ones again, --incremental records transferred files in a manifest so a rerun only transfers new, changed and failed files",
+        usage: "transfer [--incremental] [--verify [--retransfer]] <file|folder>... <folder>",
+        args: 2,
+        paths: ["rfs", "pfs"],
+        multiple: true
+    },
+    downloadw: {
+        desc: "download file or folder from pan dav to disk",
+        usage: "downloadw <file|folder>... <folder>",
+        args: 2,
+        paths: ["pfs", "fs"],
+        multiple: true
+    },
+    uploadw: {
+        desc: "upload file or folder from disk to pan dav",
+        usage: "uploadw <file|folder>... <folder>",
+        args: 2,
+        paths: ["fs", "pfs"],
+        multiple: true
+    },
+    transferw: {
+        desc: "transfer file or folder from pan to rec",
+        usage: "transferw <file|folder>... <folder>",
+        args: 2,
+        paths: ["pfs", "rfs"],
+        multiple: true
+    },
+    find: {
+        desc: "find files and folders under the given folder, default is current folder, -name matches a glob pattern, -size compares with a size in K, M, G or T, -type f|d, -newer compares with a date or a file, -creator matches the creator name; paths are printed one per line, or passed to the command after | at the end or in place of {}",
+        usage: "find [folder] [-name pattern] [-size [+|-]n[K|M|G|T]] [-type f|d] [-newer date|file] [-creator name]",
+        args: 1,
+        paths: ["rfs"],
+        valueOptions: ["-name", "-size", "-type", "-newer", "-creator"],
+        output: true
+    },
+    findw: {
+        desc: "find files and folders under the given folder in pan dav, see find, -creator is not supported",
+        usage: "findw [folder] [-name pattern] [-size [+|-]n[K|M|G|T]] [-type f|d] [-newer date|file]",
+        args: 1,
+        paths: ["pfs"],
+        valueOptions: ["-name", "-size", "-type", "-newer"],
+        output: true
+    },
+    sync: {
+        desc: "sync local folder and cloud folder by name, size and modification time, --push (default) makes cloud like local, --pull makes local like cloud, --mirror copies newer files both ways, --delete removes files only on the target side, or with --mirror files deleted on one side since the last mirror, --dry-run only prints the plan",
+        usage: "sync [--push|--pull|--mirror] [--delete] [--dry-run] <local folder> <folder>",
+        args: 2,
+        paths: ["fs", "rfs"]
     },
     save: {
         desc: "save file or folder from group to cloud",
-        usage: "save <file|folder> <folder>",
-        args: 2
+        usage: "save <file|folder>... <folder>",
+        args: 2,
+        paths: ["rfs", "rfs"],
+        multiple: true
     },
     whoami: {
         desc: "display information about the current user",
@@ -167,12 +294,79 @@ const commands: { [key: string]: Command } = {
     },
     du: {
         desc: "display disk usage of a file or folder",
-        usage: "du [file|folder]",
-        args: 1
+        usage: "du [file|folder...]",
+        args: 1,
+        paths: ["rfs"],
+        multiple: true
+    },
+    stat: {
+        desc: "display full metadata of a file or folder, --json prints it as json",
+        usage: "stat [--json] <file|folder>...",
+        args: 1,
+        paths: ["rfs"],
+        multiple: true
     },
     duw: {
         desc: "display disk usage of a file or folder in pan dav",
-        usage: "duw [file|folder]",
+        usage: "duw [file|folder...]",
+        args: 1,
+        paths: ["pfs"],
+        multiple: true
+    },
+    fs: {
+        desc: "operate files in any backend by paths like rec:/a, pan:/a or local:/a, cp and mv stream between backends",
+        usage: "fs <ls|stat|du|mkdir|rm|rename|cp|mv> <path>... [name|folder]",
+        args: 3
+    },
+    profiles: {
+        desc: "display the saved Rec and WebDav accounts and whether their tokens are expired, * marks the ones in use",
+        usage: "profiles",
+        args: 0
+    },
+    login: {
+        desc: "login to a Rec account, or a WebDav account with -w, save it and use it",
+        usage: "login [-w] <account>",
+        args: 1
+    },
+    logout: {
+        desc: "remove the saved credentials of a Rec account, or a WebDav account with -w, the account in use cannot be logged out",
+        usage: "logout [-w] <account|default>",
+        args: 1
+    },
+    use: {
+        desc: "switch to a saved Rec account, or a WebDav account with -w, each account keeps its own current folder",
+        usage: "use [-w] <account|default>",
+        args: 1
+    },
+    set: {
+        desc: `set an option of the shell, output is one of ${outputFormats.join(", ")}, -e stops a script at the first failed command and +e goes on`,
+        usage: "set <output <format>|-e|+e>",
+        args: 2
+    },
+    alias: {
+        desc: "define an alias replacing the first word of a command, or display the aliases, the command may be quoted",
+        usage: "alias [name[='command ...']]",
+        args: 1
+    },
+    unalias: {
+        desc: "remove the given aliases, -a removes all",
+        usage: "unalias <-a|name...>",
+        args: 1,
+        multiple: true
+    },
+    bookmark: {
+        desc: "bookmark a path to be used as ~name in rec and pan dav paths, or display the bookmarks, -d removes the bookmark",
+        usage: "bookmark [-d] [name [path]]",
+        args: 2
+    },
+    history: {
+        desc: "display the command history, the last count commands if given, recall one by !n, !-n or !!, search by Ctrl+R",
+        usage: "history [count]",
+        args: 1
+    },
+    cache: {
+        desc: "clear the folder cache or display its statistics",
+        usage: "cache <clear|stats>",
         args: 1
     },
     help: {
@@ -192,40 +386,192 @@ const commands: { [key: string]: Command } = {
     },
 }
 
+// plain record of a rec file for output formats other than text
+function toRecord(f: RecFile & { path?: string }) {
+    return {
+        id: f.id,
+        ...(f.path !== undefined ? { path: f.path } : {}),
+        name: f.name,
+        type: f.type,
+        size: f.size,
+        diskType: f.diskType,
+        groupId: f.groupId ?? "",
+        role: f.role.label,
+        download: f.role.download,
+        upload: f.role.upload,
+        creator: f.creator,
+        lastModified: f.lastModified
+    };
+}
+
+// "default" is the default account in commands taking an account
+function toAccount(name: string): string | undefined {
+    return name === "default" ? undefined : name;
+}
+
 class RecCli {
     private rfs: RecFileSystem;
-    private rfc: RecFileCache = new RecFileCache();
+    private rfc: RecFileCache;
+    // student ID, undefined for the default account
+    private account?: string;
     private rl: Interface;
+    private nonInteractive: boolean;
+    // seconds of the persistent folder cache, see constructor
+    private cacheTtl?: number;
 
     private client?: PanDavClient;
     private pfs?: PanDavFileSystem;
+    // WebDav account, undefined for the default account
+    private panDavAccount?: string;
+    // local disk addressed by "local:" paths in fs, created when first used
+    private lfs?: LocalFileSystem;
+
+    // accounts used in this shell keyed by account, "" for the default account, see use
+    private recProfiles = new Map<string, RecProfile>();
+    private panDavProfiles = new Map<string, PanDavProfile>();
 
     private interrupted = false;
     private interruptCount = 0;
 
     private running = false;
+    // abort controller of the running upload, webdav transfer or migration, aborted by Ctrl+C
+    private abortController?: AbortController;
+    // pause signal of the running transfer, toggled by Ctrl+S, see startTransfer
+    private pauseSignal?: PauseSignal;
+    // whether a live progress line is on the screen
+    private progressShown = false;
+    // paths written by the running command if its output is piped
+    private pipeOutput?: string[];
+    // format of command results, messages go to stderr if not text
+    private output: OutputFormat = "text";
+    // data emitted by the running command, see emit
+    private result?: unknown;
+    // whether a script stops at the first failed command, set by "set -e"
+    private errexit = false;
+    // command history of readline, the newest first
+    private history: string[] = [];
+    // the terminal output of readline, muted while a password is typed, see askPassword
+    private terminal = new MutableOutput(process.stdout);
+    // commands replacing the first word of a command, defined by "alias"
+    private aliases = new Map<string, string>();
+    // paths used as "~name", defined by "bookmark"
+    private bookmarks = new Map<string, string>();
+    // reverse search by Ctrl+R, the line is the query, see onKeypress
+    private search?: {
+        // index in history of the match
+        index: number,
+        match?: string,
+        // prompt before the search
+        prompt: string
+    };
 
-    constructor(api: RecAPI, client?: PanDavClient, nonInteractive?: boolean) {
-        this.rfs = new RecFileSystem(api);
+    // if cacheTtl is given, folder listings are persisted for cacheTtl milliseconds and shared by path resolution and du
+    constructor(api: RecAPI, client?: PanDavClient, nonInteractive?: boolean, account?: string, cacheTtl?: number, panDavAccount?: string) {
+        // the default account shares the cache of the account it points to
+        const resolved = profileManager.resolveAccount("rec", account);
+        this.rfc = new RecFileCache(resolved, cacheTtl);
+        this.rfs = new RecFileSystem(api, this.rfc, resolved);
+        this.cacheTtl = cacheTtl;
+        this.nonInteractive = !!nonInteractive;
+        // history is saved for each account, but not for non-interactive mode
+        this.history = nonInteractive ? [] : recHistory.getHistory(account);
         this.rl = readline.createInterface({
             // if nonInteractive, use a readable stream that does nothing
             input: nonInteractive ? new Readable({ read() { } }) : process.stdin,
-            output: nonInteractive ? new Writable({ write() { } }) : process.stdout,
+            output: nonInteractive ? new Writable({ write() { } }) : this.terminal,
             prompt: "/[/]> ",
             completer: (line, callback) => this.completer(line, callback),
-            terminal: true
+            terminal: true,
+            history: this.history,
+            historySize: nonInteractive ? 0 : recHistory.historySize
         });
-        this.rl.on("line", (line) => this.parseLine(line));
+        this.rl.on("line", (line) => this.parseLine(this.interrupted ? line : this.expandHistory(line)));
         this.rl.on("SIGINT", () => this.interrupt());
-        this.rl.on("close", () => exit(0));
+        if (!nonInteractive) {
+            // saved for the account in use, see useRec
+            this.rl.on("history", (history) => {
+                this.history = history;
+                recHistory.setHistory(this.account, history);
+            });
+            // keypress events are emitted on stdin by readline
+            process.stdin.on("keypress", (_, key) => this.onKeypress(key));
+        }
+        this.account = account;
+        this.rl.on("close", () => {
+            this.rfc.save();
+            exit(0);
+        });
         this.client = client;
         this.pfs = client ? new PanDavFileSystem(client) : undefined;
+        this.panDavAccount = panDavAccount;
+        this.recProfiles.set(profileManager.resolveAccount("rec", account) ?? "", { rfs: this.rfs, rfc: this.rfc });
+        if (client) this.panDavProfiles.set(panDavAccount ?? "", { client, pfs: this.pfs! });
     }
 
     public run(): void {
         this.rl.prompt();
     }
 
+    // run the commands in "~/.reccli-ts/rc" like a script, e.g. aliases, bookmarks and the initial folders
+    // a failed command is reported and the rest still run
+    public async loadRc(): Promise<void> {
+        let lines;
+        try {
+            const rc = recRc.getRc();
+            if (rc === undefined) return;
+            const variables = Object.fromEntries(Object.entries(process.env).filter((e): e is [string, string] => e[1] !== undefined));
+            lines = parseScript(rc, variables);
+        } catch (err) {
+            console.error(`${recRc.rcPath}: ${err instanceof Error ? err.message : err}`);
+            return;
+        }
+        for (const line of lines) {
+            if (!await this.parseLine(line.command, true)) {
+                console.error(`${recRc.rcPath}: line ${line.line} failed: ${line.command}`);
+            }
+        }
+    }
+
+    public setOutput(format: OutputFormat): void {
+        this.output = format;
+    }
+
+    public isErrexit(): boolean {
+        return this.errexit;
+    }
+
+    // print a message, to stderr if the output is for scripts
+    private log(message: string = ""): void {
+        if (this.output === "text") console.log(message);
+        else console.error(message);
+    }
+
+    // render the result of a command as text, or keep it to be written in the output format, see writeResult
+    private emit(data: unknown, render: () => void): void {
+        if (this.output === "text") render();
+        else this.result = data;
+    }
+
+    // write the result of a finished command in the output format, text is already rendered by emit
+    private writeResult(result: CommandResult): void {
+        switch (this.output) {
+            case "text": {
+                if (!result.stat) console.log(result.msg);
+                break;
+            }
+            case "json": {
+                console.log(JSON.stringify(result));
+                break;
+            }
+            case "csv":
+            case "tsv": {
+                if (!result.stat) console.error(result.msg);
+                else if (result.data !== undefined) console.log(formatDelimited(result.data, this.output));
+                break;
+            }
+        }
+    }
+
     private async parseCommand(cmd: string, args: string[]): Promise<void> {
         // if cmd is undefined, return
         if (!cmd) return;
@@ -238,13 +584,16 @@ class RecCli {
         // switch case to handle different commands
         switch (cmd) {
             case "ls": {
-                const src = args[0] ?? ".";
+                const { options, rest } = parseOptions(args);
+                const src = rest[0] ?? ".";
+                const showId = options["-i"] === true;
                 const ls = await this.rfs.ls(src);
                 if (!ls.stat) {
                     throw new Error(`ls: ${ls.msg}`);
                 }
-                // name size download upload creator lastModified
+                // (id) name size download upload creator lastModified
                 const formatter = new TableFormatter([
+                    ...(showId ? [{ name: "id", width: 12 }] : []),
                     { name: "name", width: 40 },
                     { name: "type", width: 8 },
                     { name: "size", width: 10 },
@@ -253,7 +602,8 @@ class RecCli {
                     { name: "creator", width: 10 },
                     { name: "lastModified", width: 20 }
                 ]);
-                const data = ls.data.map((f) => ({
+                const rows = ls.data.map((f) => ({
+                    ...(showId ? { id: { value: f.id } } : {}),
                     name: { value: f.name, color: f.type === "folder" ? "blue" : "green" },
                     type: { value: f.type },
                     size: { value: byteToSize(f.size) },
@@ -262,13 +612,9 @@ class RecCli {
                     creator: { value: f.creator },
                     lastModified: { value: f.lastModified }
                 }));
-                console.log(formatter.formatTable(data));
+                this.emit(ls.data.map(toRecord), () => console.log(formatter.formatTable(rows)));
                 // update cache
-                this.rfc.updateCacheFolder(resolveRecFullPath(this.rfs, src), ls.data.map(f => ({
-                    name: f.name,
-                    type: f.type,
-                    children: undefined
-                })));
+                this.rfc.updateCacheFolder(resolveRecFullPath(this.rfs, src), ls.data);
                 break;
             }
             case "lsp": {
@@ -277,15 +623,11 @@ class RecCli {
                 if (!ls.stat) {
                     throw new Error(`ls: ${ls.msg}`);
                 }
-                ls.data.forEach((f) => {
+                this.emit(ls.data.map(toRecord), () => ls.data.forEach((f) => {
                     console.log(f.name + (f.type === "folder" ? "/" : ""));
-                });
+                }));
                 // update cache
-                this.rfc.updateCacheFolder(resolveRecFullPath(this.rfs, src), ls.data.map(f => ({
-                    name: f.name,
-                    type: f.type,
-                    children: undefined
-                })));
+                this.rfc.updateCacheFolder(resolveRecFullPath(this.rfs, src), ls.data);
                 break;
             }
             case "lsw": {
@@ -307,7 +649,7 @@ class RecCli {
                     { name: "creator", width: 10 },
                     { name: "lastModified", width: 20 }
                 ]);
-                const data = ls.data.map((f) => ({
+                const rows = ls.data.map((f) => ({
                     name: { value: f.basename, color: f.type === "folder" ? "blue" : "green" },
                     type: { value: f.type === "folder" ? "folder" : "file" },
                     size: { value: byteToSize(f.size) },
@@ -316,7 +658,13 @@ class RecCli {
                     creator: { value: null },
                     lastModified: { value: f.lastmod }
                 }));
-                console.log(formatter.formatTable(data));
+                this.emit(ls.data.map(f => ({
+                    name: f.basename,
+                    path: f.filename,
+                    type: f.type === "folder" ? "folder" : "file",
+                    size: f.size,
+                    lastModified: f.lastmod
+                })), () => console.log(formatter.formatTable(rows)));
                 break;
             }
             case "cd": {
@@ -339,16 +687,21 @@ class RecCli {
                 break;
             }
             case "cp": {
-                const src = args[0];
-                const dst = args[1];
-                if (!src || !dst) {
+                const { options, rest } = parseOptions(args, commands[cmd].valueOptions);
+                const srcs = rest.slice(0, -1);
+                const dst = rest[rest.length - 1];
+                if (srcs.length === 0 || !dst || options["--to"] === "") {
                     throw new Error(`Usage: ${commands[cmd].usage}`);
                 }
-                const cp = await this.rfs.cp(src, dst);
+                // the destination is in another account, the sources in this one
+                const target = options["--to"] !== undefined ? this.getRecProfile(cmd, toAccount(options["--to"] as string)) : undefined;
+                const cp = target ? await target.rfs.copyFrom(this.rfs, srcs, dst) : await this.rfs.cp(srcs, dst);
                 if (!cp.stat) {
                     throw new Error(`cp: ${cp.msg}`);
                 }
-                this.rfc.clearCache(resolveRecFullPath(this.rfs, dst), true);
+                const { rfs, rfc } = target ?? { rfs: this.rfs, rfc: this.rfc };
+                rfc.clearCache(resolveRecFullPath(rfs, dst), true);
+                rfc.save();
                 break;
             }
             case "cpw": {
@@ -368,16 +721,16 @@ class RecCli {
                 break;
             }
             case "mv": {
-                const src = args[0];
-                const dst = args[1];
-                if (!src || !dst) {
+                const srcs = args.slice(0, -1);
+                const dst = args[args.length - 1];
+                if (srcs.length === 0 || !dst) {
                     throw new Error(`Usage: ${commands[cmd].usage}`);
                 }
-                const mv = await this.rfs.mv(src, dst);
+                const mv = await this.rfs.mv(srcs, dst);
                 if (!mv.stat) {
                     throw new Error(`mv: ${mv.msg}`);
                 }
-                this.rfc.clearCache(resolveRecFullPath(this.rfs, src), false);
+                srcs.forEach(src => this.rfc.clearCache(resolveRecFullPath(this.rfs, src), false));
                 this.rfc.clearCache(resolveRecFullPath(this.rfs, dst), true);
                 break;
             }
@@ -399,15 +752,14 @@ class RecCli {
                 break;
             }
             case "rm": {
-                const path = args[0];
-                if (!path) {
+                if (args.length === 0) {
                     throw new Error(`Usage: ${commands[cmd].usage}`);
                 }
-                const rm = await this.rfs.rm(path);
+                const rm = await this.rfs.rm(args);
                 if (!rm.stat) {
                     throw new Error(`rm: ${rm.msg}`);
                 }
-                this.rfc.clearCache(resolveRecFullPath(this.rfs, path), false);
+                args.forEach(path => this.rfc.clearCache(resolveRecFullPath(this.rfs, path), false));
                 break;
             }
             case "rmw": {
@@ -507,15 +859,14 @@ class RecCli {
                 break;
             }
             case "recycle": {
-                const path = args[0];
-                if (!path) {
+                if (args.length === 0) {
                     throw new Error(`Usage: ${commands[cmd].usage}`);
                 }
-                const recycle = await this.rfs.recycle(path);
+                const recycle = await this.rfs.recycle(args);
                 if (!recycle.stat) {
                     throw new Error(`recycle: ${recycle.msg}`);
                 }
-                this.rfc.clearCache(resolveRecFullPath(this.rfs, path), false);
+                args.forEach(path => this.rfc.clearCache(resolveRecFullPath(this.rfs, path), false));
                 this.rfc.clearCache(resolveRecFullPath(this.rfs, "/recycle"), true);
                 break;
             }
@@ -563,43 +914,241 @@ class RecCli {
                 break;
             }
             case "upload": {
-                const src = args[0];
-                const dst = args[1];
+                const { options, rest } = parseOptions(args);
+                const src = rest[0];
+                const dst = rest[1];
                 if (!src || !dst) {
                     throw new Error(`Usage: ${commands[cmd].usage}`);
                 }
-                const upload = await this.rfs.upload(resolveFullPath(src), dst);
+                const fullSrc = resolveFullPath(src);
+                // total size for the progress line, 0 if unknown
+                const du = await new LocalFileSystem().du(fullSrc);
+                const total = du.stat ? du.data : 0;
+                const [signal, pauseSignal] = this.startTransfer();
+                const upload = await this.rfs.upload(fullSrc, dst, (_, transferred, rate) => this.showProgress("upload", transferred, total, rate), signal, pauseSignal, !!options["--fingerprint"]);
+                this.endProgress();
                 if (!upload.stat) {
                     throw new Error(`upload: ${upload.msg}`);
                 }
                 this.rfc.clearCache(resolveRecFullPath(this.rfs, dst), true);
+                if (options["--verify"]) {
+                    await this.verify("upload", fullSrc, dst, !!options["--retransfer"]);
+                }
                 break;
             }
             case "download": {
-                const src = args[0];
-                const dst = args[1];
+                const { options, rest } = parseOptions(args);
+                const src = rest[0];
+                const dst = rest[1];
                 if (!src || !dst) {
                     throw new Error(`Usage: ${commands[cmd].usage}`);
                 }
-                const download = await this.rfs.download(src, resolveFullPath(dst));
+                const [signal, pauseSignal] = this.startTransfer();
+                const download = await this.rfs.download(src, resolveFullPath(dst), undefined, signal, pauseSignal);
                 if (!download.stat) {
                     throw new Error(`download: ${download.msg}`);
                 }
+                if (options["--verify"]) {
+                    await this.verify("download", src, resolveFullPath(dst), !!options["--retransfer"]);
+                }
                 break;
             }
             case "transfer": {
+                const { options, rest } = parseOptions(args);
+                const src = rest[0];
+                const dst = rest[1];
+                if (!src || !dst) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                if (!this.client) {
+                    throw new Error("Please first login to Pan WebDav with 'webdav-login' command.");
+                }
+                if (options["--incremental"]) {
+                    const [signal, pauseSignal] = this.startTransfer();
+                    const migrate = await this.rfs.migrate(src, resolvePanDavFullPath(this.pfs!, dst), this.client, undefined, signal, pauseSignal);
+                    if (!migrate.stat) {
+                        throw new Error(`transfer: ${migrate.msg}`);
+                    }
+                    const { added, modified, removed, retried, skipped, transferred, failed } = migrate.data;
+                    this.emit(migrate.data, () => {
+                        console.log(`Source changes since last run: ${added.length} added, ${modified.length} modified, ${removed.length} removed`);
+                        if (modified.length + removed.length > 0) {
+                            const formatter = new TableFormatter([
+                                { name: "change", width: 10 },
+                                { name: "path", width: 80 }
+                            ]);
+                            console.log(formatter.formatTable([
+                                ...modified.map(p => ({ change: { value: "modified", color: "yellow" as const }, path: { value: p } })),
+                                ...removed.map(p => ({ change: { value: "removed", color: "red" as const }, path: { value: p } }))
+                            ]));
+                        }
+                        console.log(`Transferred ${transferred} files (${retried.length} retried), skipped ${skipped} already migrated, ${failed.length} failed`);
+                    });
+                    if (failed.length > 0) {
+                        failed.forEach(f => this.log(`[FAILED] ${f.path}: ${f.error}`));
+                        throw new Error(`transfer: ${failed.length} files failed, run again to retry them`);
+                    }
+                } else {
+                    const [signal, pauseSignal] = this.startTransfer();
+                    const transfer = await this.rfs.transfer(src, resolvePanDavFullPath(this.pfs!, dst), this.client, undefined, signal, pauseSignal);
+                    if (!transfer.stat) {
+                        throw new Error(`transfer: ${transfer.msg}`);
+                    }
+                }
+                if (options["--verify"]) {
+                    await this.verify("transfer", src, resolvePanDavFullPath(this.pfs!, dst), !!options["--retransfer"]);
+                }
+                break;
+            }
+            case "downloadw": {
                 const src = args[0];
                 const dst = args[1];
                 if (!src || !dst) {
                     throw new Error(`Usage: ${commands[cmd].usage}`);
                 }
-                if (!this.client) {
+                if (!this.pfs) {
+                    throw new Error("Please first login to Pan WebDav with 'webdav-login' command.");
+                }
+                // total size for the progress line, 0 if unknown
+                const du = await this.pfs.du(src);
+                const total = du.stat ? du.data : 0;
+                const [signal, pauseSignal] = this.startTransfer();
+                const download = await this.pfs.download(src, resolveFullPath(dst), (_, transferred, rate) => this.showProgress("downloadw", transferred, total, rate), signal, pauseSignal);
+                this.endProgress();
+                if (!download.stat) {
+                    throw new Error(`downloadw: ${download.msg}`);
+                }
+                break;
+            }
+            case "uploadw": {
+                const src = args[0];
+                const dst = args[1];
+                if (!src || !dst) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                if (!this.pfs) {
+                    throw new Error("Please first login to Pan WebDav with 'webdav-login' command.");
+                }
+                const fullSrc = resolveFullPath(src);
+                // total size for the progress line, 0 if unknown
+                const du = await new LocalFileSystem().du(fullSrc);
+                const total = du.stat ? du.data : 0;
+                const [signal, pauseSignal] = this.startTransfer();
+                const upload = await this.pfs.upload(fullSrc, dst, (_, transferred, rate) => this.showProgress("uploadw", transferred, total, rate), signal, pauseSignal);
+                this.endProgress();
+                if (!upload.stat) {
+                    throw new Error(`uploadw: ${upload.msg}`);
+                }
+                break;
+            }
+            case "transferw": {
+                const src = args[0];
+                const dst = args[1];
+                if (!src || !dst) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                if (!this.client || !this.pfs) {
                     throw new Error("Please first login to Pan WebDav with 'webdav-login' command.");
                 }
-                const transfer = await this.rfs.transfer(src, resolvePanDavFullPath(this.pfs!, dst), this.client);
+                // total size for the progress line, 0 if unknown
+                const du = await this.pfs.du(src);
+                const total = du.stat ? du.data : 0;
+                const [signal, pauseSignal] = this.startTransfer();
+                const transfer = await this.rfs.transferFromPan(resolvePanDavFullPath(this.pfs, src), dst, this.client, (_, transferred, rate) => this.showProgress("transferw", transferred, total, rate), signal, pauseSignal);
+                this.endProgress();
                 if (!transfer.stat) {
-                    throw new Error(`transfer: ${transfer.msg}`);
+                    throw new Error(`transferw: ${transfer.msg}`);
+                }
+                this.rfc.clearCache(resolveRecFullPath(this.rfs, dst), true);
+                break;
+            }
+            case "find": {
+                const { options, rest } = parseOptions(args, commands[cmd].valueOptions);
+                const src = rest[0] ?? ".";
+                const filter = await this.parseFindFilter(cmd, options);
+                const find = await this.rfs.find(src, filter);
+                if (!find.stat) {
+                    throw new Error(`find: ${find.msg}`);
+                }
+                this.writePaths(find.data.map(f => f.path), find.data.map(toRecord));
+                break;
+            }
+            case "findw": {
+                const { options, rest } = parseOptions(args, commands[cmd].valueOptions);
+                const src = rest[0] ?? ".";
+                if (!this.pfs) {
+                    throw new Error("Please first login to Pan WebDav with 'webdav-login' command.");
+                }
+                const filter = await this.parseFindFilter(cmd, options);
+                const find = await this.pfs.find(src, filter);
+                if (!find.stat) {
+                    throw new Error(`findw: ${find.msg}`);
+                }
+                this.writePaths(find.data.map(f => f.filename), find.data.map(f => ({
+                    name: f.basename,
+                    path: f.filename,
+                    type: f.type,
+                    size: f.size,
+                    lastModified: f.lastmod
+                })));
+                break;
+            }
+            case "sync": {
+                const { options, rest } = parseOptions(args);
+                const local = rest[0];
+                const remote = rest[1];
+                const modes = (["push", "pull", "mirror"] as SyncMode[]).filter(m => options["--" + m]);
+                if (!local || !remote || modes.length > 1) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                const mode = modes[0] ?? "push";
+                const plan = await this.rfs.planSync(resolveFullPath(local), remote, mode, !!options["--delete"]);
+                if (!plan.stat) {
+                    throw new Error(`sync: ${plan.msg}`);
+                }
+                // the next mirror tells deleted files from new ones by what both sides have now
+                const record = async () => {
+                    if (mode !== "mirror") return;
+                    const record = await this.rfs.recordSync(resolveFullPath(local), remote);
+                    if (!record.stat) {
+                        throw new Error(`sync: ${record.msg}`);
+                    }
+                };
+                if (plan.data.length === 0) {
+                    this.emit([], () => console.log("Already in sync"));
+                    await record();
+                    break;
+                }
+                // print the plan before anything changes
+                const formatter = new TableFormatter([
+                    { name: "action", width: 14 },
+                    { name: "type", width: 8 },
+                    { name: "path", width: 60 },
+                    { name: "size", width: 10 },
+                    { name: "reason", width: 10 }
+                ]);
+                this.emit(plan.data, () => console.log(formatter.formatTable(plan.data.map(a => ({
+                    action: { value: a.action, color: a.action.startsWith("delete") ? "red" : a.action === "skip" ? "yellow" : "green" },
+                    type: { value: a.type },
+                    path: { value: a.path, color: a.type === "folder" ? "blue" : undefined },
+                    size: { value: a.type === "folder" ? "-" : byteToSize(a.size) },
+                    reason: { value: a.reason }
+                })))));
+                if (options["--dry-run"]) break;
+
+                const sync = await this.rfs.sync(plan.data, (done, total, action) => {
+                    this.log(`[${done + 1}/${total}] ${action.action} ${action.path}`);
+                });
+                this.rfc.clearCache(resolveRecFullPath(this.rfs, remote), true);
+                if (!sync.stat) {
+                    throw new Error(`sync: ${sync.msg}`);
                 }
+                this.emit({ plan: plan.data, ...sync.data }, () => console.log(`Synced ${sync.data.done} items, ${sync.data.failed.length} failed`));
+                if (sync.data.failed.length > 0) {
+                    sync.data.failed.forEach(f => this.log(`[FAILED] ${f.path}: ${f.msg}`));
+                    throw new Error(`sync: ${sync.data.failed.length} items failed`);
+                }
+                await record();
                 break;
             }
             case "save": {
@@ -620,9 +1169,11 @@ class RecCli {
                 if (!user.stat) {
                     throw new Error(`whoami: ${user.msg}`);
                 }
-                console.log(`Gid: ${user.data.gid}`);
-                console.log(`User: ${user.data.name}`);
-                console.log(`Email: ${user.data.email}`);
+                this.emit(user.data, () => {
+                    console.log(`Gid: ${user.data.gid}`);
+                    console.log(`User: ${user.data.name}`);
+                    console.log(`Email: ${user.data.email}`);
+                });
                 break;
             }
             case "groups": {
@@ -631,14 +1182,14 @@ class RecCli {
                     throw new Error(`groups: ${groups.msg}`);
                 }
                 // 分别输出所有 group 的详细信息
-                groups.data.forEach((group) => {
+                this.emit(groups.data, () => groups.data.forEach((group) => {
                     console.log(`Number: ${group.number}`);
                     console.log(`Name: ${group.name}`);
                     console.log(`Owner: ${group.owner}`);
                     console.log(`Members: ${group.members}`);
                     console.log(`Create time: ${group.createTime}`);
                     console.log();
-                });
+                }));
                 break;
             }
             case "df": {
@@ -646,8 +1197,10 @@ class RecCli {
                 if (!df.stat) {
                     throw new Error(`df: ${df.msg}`);
                 }
-                console.log(`User disk usage: ${byteToSize(df.data.user.usedBytes)} / ${byteToSize(df.data.user.totalBytes)}`);
-                console.log(`Group disk usage: ${byteToSize(df.data.group.usedBytes)} / ${byteToSize(df.data.group.totalBytes)}`);
+                this.emit(df.data, () => {
+                    console.log(`User disk usage: ${byteToSize(df.data.user.usedBytes)} / ${byteToSize(df.data.user.totalBytes)}`);
+                    console.log(`Group disk usage: ${byteToSize(df.data.group.usedBytes)} / ${byteToSize(df.data.group.totalBytes)}`);
+                });
                 break;
             }
             case "du": {
@@ -656,7 +1209,38 @@ class RecCli {
                 if (!du.stat) {
                     throw new Error(`du: ${du.msg}`);
                 }
-                console.log(`${byteToSize(du.data)}    ${path}`);
+                this.emit({ path: path, bytes: du.data }, () => console.log(`${byteToSize(du.data)}    ${path}`));
+                break;
+            }
+            case "stat": {
+                const { options, rest } = parseOptions(args);
+                const path = rest[0];
+                if (!path) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                const stat = await this.rfs.stat(path);
+                if (!stat.stat) {
+                    throw new Error(`stat: ${stat.msg}`);
+                }
+                if (options["--json"]) {
+                    this.emit(stat.data, () => console.log(JSON.stringify(stat.data, null, 2)));
+                    break;
+                }
+                const { info, ...fields } = stat.data;
+                const formatter = new TableFormatter([
+                    { name: "field", width: 12 },
+                    { name: "value", width: 60 }
+                ]);
+                const data = Object.entries({
+                    ...fields,
+                    groupId: fields.groupId ?? "",
+                    created: fields.created ?? "",
+                    bytes: `${fields.bytes} (${byteToSize(fields.bytes)})`
+                }).map(([field, value]) => ({
+                    field: { value: field },
+                    value: { value: value }
+                }));
+                this.emit(stat.data, () => console.log(formatter.formatTable(data)));
                 break;
             }
             case "duw": {
@@ -668,77 +1252,324 @@ class RecCli {
                 if (!du.stat) {
                     throw new Error(`duw: ${du.msg}`);
                 }
-                console.log(`${byteToSize(du.data)}    ${path}`);
+                this.emit({ path: path, bytes: du.data }, () => console.log(`${byteToSize(du.data)}    ${path}`));
+                break;
+            }
+            case "fs": {
+                await this.runStorage(cmd, args);
                 break;
             }
             case "help": {
                 const cmd = args[0];
-                if (cmd) {
-                    if (cmd in commands) {
-                        const info = commands[cmd];
-                        console.log(`${cmd}:`);
-                        console.log(`  Description: ${info.desc}`);
-                        console.log(`  Usage: ${info.usage}`);
-                        console.log(`  Arguments: ${info.args}\n`);
-                    }
-                } else {
-                    console.log("Available commands:\n");
-                    for (const [cmd, info] of Object.entries(commands)) {
+                if (cmd !== undefined && !(cmd in commands) && this.aliases.has(cmd)) {
+                    const command = this.aliases.get(cmd)!;
+                    this.emit({ command: cmd, alias: command }, () => console.log(`${cmd}: alias for '${command}'`));
+                    break;
+                }
+                const entries = Object.entries(commands).filter(([c]) => !cmd || c === cmd);
+                this.emit(entries.map(([cmd, info]) => ({ command: cmd, desc: info.desc, usage: info.usage, args: info.args })), () => {
+                    if (!cmd) console.log("Available commands:\n");
+                    for (const [cmd, info] of entries) {
                         console.log(`${cmd}:`);
                         console.log(`  Description: ${info.desc}`);
                         console.log(`  Usage: ${info.usage}`);
                         console.log(`  Arguments: ${info.args}\n`);
                     }
-                }
+                });
                 break;
             }
             case "clear": {
                 console.clear();
                 break;
             }
-            case "exit": {
-                exit(0);
+            case "profiles": {
+                const profiles = profileManager.listProfiles().map(p => ({
+                    kind: p.kind,
+                    account: p.account ?? "default",
+                    active: p.kind === "rec" ? p.account === this.account : !!this.client && p.account === this.panDavAccount,
+                    status: profileManager.getProfileStatus(p).status
+                }));
+                this.emit(profiles, () => profiles.forEach(p => console.log(`${p.active ? "*" : " "} ${p.kind.padEnd(6)} ${p.account.padEnd(16)} ${p.status}`)));
+                break;
             }
-            default: {
-                throw new Error(`Unknown command: ${cmd}`);
+            case "login": {
+                const { options, rest } = parseOptions(args);
+                const account = rest[0];
+                if (!account || account === "default" || Object.keys(options).some(o => o !== "-w")) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                const password = await this.askPassword(`Password of ${account}: `).catch(err => {
+                    throw new Error(`login: ${err instanceof Error ? err.message : err}`);
+                });
+                if (options["-w"]) {
+                    const panDavAuth = { username: account, password: password };
+                    const client = createPanDavClient(panDavAuth);
+                    // verify the credentials before saving them
+                    try {
+                        await client.exists("/");
+                    } catch (err) {
+                        throw new Error(`login: ${err instanceof Error ? err.message : err}`);
+                    }
+                    panDavAuthSaver.setPanDavAuth(account, panDavAuth);
+                    profileManager.addProfile("pandav", account);
+                    this.panDavProfiles.set(account, { client, pfs: new PanDavFileSystem(client) });
+                    this.usePanDav(cmd, account);
+                } else {
+                    const api = new RecAPI(undefined, (userAuth) => userAuthSaver.setUserAuth(account, userAuth));
+                    try {
+                        await api.login(account, password);
+                    } catch (err) {
+                        throw new Error(`login: ${err instanceof Error ? err.message : err}`);
+                    }
+                    profileManager.addProfile("rec", account);
+                    // a new login replaces the profile used before, with its current folder
+                    this.recProfiles.delete(account);
+                    this.useRec(cmd, account);
+                }
+                this.log(`Logged in as ${account}`);
+                break;
             }
-        }
-    }
-
-    public async parseLine(line: string, nonInteractive?: boolean): Promise<void> {
-        // 1. handle interrupt
-        // interrupted and line is empty
-        if (this.interrupted) {
-            if (!line) {
-                // double Ctrl+C to exit
-                if (++this.interruptCount > 1) {
-                    exit(0);
+            case "logout": {
+                const { options, rest } = parseOptions(args);
+                const name = rest[0];
+                if (!name || Object.keys(options).some(o => o !== "-w")) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
                 }
-
-                // prompt the user on how to exit
-                console.log("(To exit, press Ctrl+C again or Ctrl+D or type 'exit')");
-            } else // reset interrupt count
-                this.interruptCount = 0;
-        } else { // reset interrupt count
-            this.interruptCount = 0;
-            // 2. parse command and handle error
-            // if there is any command running, then ignore the input
-            if (this.running) return;
-            try {
-                // begin running
-                this.running = true;
-                const [cmd, ...args] = parseShellCommand(line);
-                await this.parseCommand(cmd, args);
-            } catch (err) {
-                console.log(String(err));
-            } finally {
-                // end running
-                this.running = false;
+                const account = toAccount(name);
+                if (options["-w"]) {
+                    // the default account is the same as the account it points to
+                    if (this.client && profileManager.resolveAccount("pandav", account) === profileManager.resolveAccount("pandav", this.panDavAccount)) {
+                        throw new Error(`logout: ${name} is in use, switch to another account with 'use -w' first`);
+                    }
+                    if (!profileManager.removeAccount("pandav", account)) {
+                        throw new Error(`logout: ${name}: not logged in`);
+                    }
+                    this.panDavProfiles.delete(account ?? "");
+                } else {
+                    if (profileManager.resolveAccount("rec", account) === profileManager.resolveAccount("rec", this.account)) {
+                        throw new Error(`logout: ${name} is in use, switch to another account with 'use' first`);
+                    }
+                    const key = profileManager.resolveAccount("rec", account) ?? "";
+                    if (!profileManager.removeAccount("rec", account)) {
+                        throw new Error(`logout: ${name}: not logged in`);
+                    }
+                    this.recProfiles.delete(key);
+                }
+                this.log(`Logged out of ${name}`);
+                break;
             }
-        }
-
-        // 3. update prompt
-        if (nonInteractive || this.running) return;
+            case "use": {
+                const { options, rest } = parseOptions(args);
+                const name = rest[0];
+                if (!name || Object.keys(options).some(o => o !== "-w")) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                if (options["-w"]) {
+                    this.usePanDav(cmd, toAccount(name));
+                } else {
+                    this.useRec(cmd, toAccount(name));
+                }
+                break;
+            }
+            case "alias": {
+                // definitions are parsed from the whole line by parseLine, the name and the command are the arguments
+                if (args.length === 2) {
+                    const [name, command] = args;
+                    if (!command) {
+                        throw new Error(`Usage: ${commands[cmd].usage}`);
+                    }
+                    this.aliases.set(name, command);
+                    break;
+                }
+                const name = args[0];
+                if (name !== undefined && !this.aliases.has(name)) {
+                    throw new Error(`alias: ${name}: not found`);
+                }
+                const entries = [...this.aliases].filter(([n]) => name === undefined || n === name).map(([name, command]) => ({ name, command }));
+                this.emit(entries, () => entries.forEach(e => console.log(`alias ${e.name}='${e.command}'`)));
+                break;
+            }
+            case "unalias": {
+                const name = args[0];
+                if (name === undefined) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                if (name === "-a") {
+                    this.aliases.clear();
+                } else if (!this.aliases.delete(name)) {
+                    throw new Error(`unalias: ${name}: not found`);
+                }
+                break;
+            }
+            case "bookmark": {
+                const { options, rest } = parseOptions(args);
+                const [name, path] = rest;
+                if (Object.keys(options).some(o => o !== "-d") || (options["-d"] && (name === undefined || path !== undefined))) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                if (name !== undefined && (name.includes("/") || name.startsWith("~"))) {
+                    throw new Error(`bookmark: invalid name: ${name}`);
+                }
+                if (options["-d"]) {
+                    if (!this.bookmarks.delete(name)) {
+                        throw new Error(`bookmark: ${name}: not found`);
+                    }
+                    break;
+                }
+                if (path !== undefined) {
+                    this.bookmarks.set(name, path);
+                    break;
+                }
+                if (name !== undefined && !this.bookmarks.has(name)) {
+                    throw new Error(`bookmark: ${name}: not found`);
+                }
+                const entries = [...this.bookmarks].filter(([n]) => name === undefined || n === name).map(([name, path]) => ({ name, path }));
+                this.emit(entries, () => entries.forEach(e => console.log(`~${e.name}  ${e.path}`)));
+                break;
+            }
+            case "history": {
+                const count = args[0] !== undefined ? Number(args[0]) : this.history.length;
+                if (!Number.isInteger(count) || count < 0) {
+                    throw new Error(`Usage: ${commands[cmd].usage}`);
+                }
+                // numbered from the oldest, as recalled by !n
+                const entries = [...this.history].reverse().map((command, i) => ({ index: i + 1, command: command }));
+                const shown = count > 0 ? entries.slice(-count) : [];
+                this.emit(shown, () => shown.forEach(e => console.log(`${String(e.index).padStart(5)}  ${e.command}`)));
+                break;
+            }
+            case "cache": {
+                switch (args[0]) {
+                    case "clear": {
+                        this.rfc.clearCache();
+                        this.rfc.save();
+                        this.log("Folder cache cleared");
+                        break;
+                    }
+                    case "stats": {
+                        const stats = this.rfc.getStats();
+                        this.emit(stats, () => {
+                            console.log(`Persisted to: ${stats.path ?? "memory only"}`);
+                            if (stats.path) {
+                                console.log(`Size on disk: ${byteToSize(stats.bytes)}`);
+                                console.log(`TTL: ${stats.ttl / 1000}s`);
+                            }
+                            console.log(`Folders: ${stats.folders} (${stats.expired} expired)`);
+                            console.log(`Files: ${stats.files}`);
+                            console.log(`Hits: ${stats.hits}, misses: ${stats.misses}`);
+                        });
+                        break;
+                    }
+                    default: {
+                        throw new Error(`Usage: ${commands[cmd].usage}`);
+                    }
+                }
+                break;
+            }
+            case "set": {
+                const [option, value] = args;
+                switch (option) {
+                    case "-e":
+                    case "+e": {
+                        this.errexit = option === "-e";
+                        break;
+                    }
+                    case "output": {
+                        if (!value || !isOutputFormat(value)) {
+                            throw new Error(`set: output must be one of ${outputFormats.join(", ")}`);
+                        }
+                        this.output = value;
+                        break;
+                    }
+                    default: {
+                        throw new Error(`Usage: ${commands[cmd].usage}`);
+                    }
+                }
+                break;
+            }
+            case "exit": {
+                this.rfc.save();
+                exit(0);
+            }
+            default: {
+                throw new Error(`Unknown command: ${cmd}`);
+            }
+        }
+    }
+
+    // return false if any command failed
+    public async parseLine(line: string, nonInteractive?: boolean): Promise<boolean> {
+        let ok = true;
+        // 1. handle interrupt
+        // interrupted and line is empty
+        if (this.interrupted) {
+            if (!line) {
+                // double Ctrl+C to exit
+                if (++this.interruptCount > 1) {
+                    exit(0);
+                }
+
+                // prompt the user on how to exit
+                this.log("(To exit, press Ctrl+C again or Ctrl+D or type 'exit')");
+            } else // reset interrupt count
+                this.interruptCount = 0;
+        } else { // reset interrupt count
+            this.interruptCount = 0;
+            // 2. parse command and handle error
+            // if there is any command running, then ignore the input
+            if (this.running) return true;
+            // the command running when an error is thrown
+            let current: { command: string, args: string[] } = { command: "", args: [] };
+            try {
+                // begin running
+                this.running = true;
+                // an alias definition keeps its command as typed, it is neither split nor expanded
+                const definition = parseAliasDefinition(line);
+                // "cmd ... | cmd ..." passes the paths written by a command as arguments to the next one
+                const stages = definition ? [["alias", definition.name, definition.command]] : this.splitPipeline(this.expandAliases(parseShellPatterns(line)));
+                let input: string[] | undefined;
+                for (let i = 0; i < stages.length; i++) {
+                    const [cmd, ...patterns] = stages[i];
+                    const last = i === stages.length - 1;
+                    if (!last && !commands[cmd]?.output) {
+                        throw new Error(`${cmd}: output cannot be piped`);
+                    }
+                    let args = definition ? patterns : await this.expandArgs(cmd, patterns);
+                    if (input) {
+                        // nothing to pass, the next command is not run
+                        if (input.length === 0) break;
+                        const index = args.indexOf("{}");
+                        args = index === -1 ? [...args, ...input] : [...args.slice(0, index), ...input, ...args.slice(index + 1)];
+                    }
+                    this.pipeOutput = last ? undefined : [];
+                    // a command given multiple sources runs once for each
+                    for (const sourceArgs of this.splitSources(cmd, args)) {
+                        current = { command: cmd, args: sourceArgs };
+                        this.result = undefined;
+                        await this.parseCommand(cmd, sourceArgs);
+                        // the output of a piped command is the input of the next one
+                        if (last) this.writeResult({ ...current, stat: true, data: this.result });
+                    }
+                    input = this.pipeOutput;
+                }
+            } catch (err) {
+                this.endProgress();
+                ok = false;
+                // text output keeps the "Error: " prefix
+                const msg = this.output === "text" || !(err instanceof Error) ? String(err) : err.message;
+                this.writeResult({ ...current, stat: false, msg: msg });
+            } finally {
+                // end running
+                this.running = false;
+                this.abortController = undefined;
+                this.pauseSignal = undefined;
+                this.pipeOutput = undefined;
+                this.rfc.save();
+            }
+        }
+
+        // 3. update prompt
+        if (nonInteractive || this.running) return ok;
         const pwd = this.rfs.pwd();
         const cwd = pwd.stat ? pwd.data : "/";
         if (!this.pfs) {
@@ -749,9 +1580,13 @@ class RecCli {
             this.rl.setPrompt(`${cwd}[${cwdw}]> `);
         }
         this.rl.prompt();
+        return ok;
     }
 
     private interrupt(): void {
+        // Ctrl+C cancels the reverse search
+        if (this.search) this.endSearch(false);
+
         // set interrupted flag
         this.interrupted = true;
 
@@ -765,21 +1600,649 @@ class RecCli {
         // reset interrupted flag
         this.interrupted = false;
 
+        // cancel the running upload or migration if any
+        if (this.running) {
+            this.abortController?.abort();
+            return;
+        }
         // prompt again
-        if (this.running) return;
         this.rl.prompt();
     }
 
+    // expand glob patterns in the path arguments of the command
+    private async expandArgs(cmd: string, patterns: string[]): Promise<string[]> {
+        const paths = commands[cmd]?.paths;
+        const valueOptions = commands[cmd]?.valueOptions ?? [];
+        // "--" ends the options
+        const end = patterns.indexOf("--");
+        // option values are neither options nor positional arguments
+        const values = new Set<number>();
+        const isOption = (i: number) => !values.has(i) && (end === -1 || i <= end) && patterns[i].length > 1 && patterns[i].startsWith("-");
+        for (let i = 0; i < patterns.length; i++) {
+            if (isOption(i) && valueOptions.includes(patterns[i])) values.add(i + 1);
+        }
+        const positionals = patterns.filter((_, i) => !isOption(i) && !values.has(i)).length;
+
+        const args: string[] = [];
+        let position = 0;
+        for (let i = 0; i < patterns.length; i++) {
+            let pattern = patterns[i];
+            if (values.has(i)) {
+                args.push(pattern);
+                continue;
+            }
+            if (isOption(i)) {
+                args.push(unescapeGlob(pattern));
+                continue;
+            }
+            // the last argument may be in another file system, e.g. the destination folder
+            const type = paths?.[position === positionals - 1 ? paths.length - 1 : 0];
+            position++;
+            if (type !== "fs") pattern = this.expandBookmark(pattern);
+            if (!type || !isGlob(pattern)) {
+                args.push(unescapeGlob(pattern));
+                continue;
+            }
+            const matches = await expandGlob(pattern, this.getGlobLister(type));
+            // a pattern without matches is kept as a literal path, e.g. a file named "a[1]"
+            args.push(...(matches.length === 0 ? [unescapeGlob(pattern)] : matches));
+        }
+        return args;
+    }
+
+    // list folders for glob expansion
+    private getGlobLister(type: PathType): GlobLister {
+        switch (type) {
+            case "rfs": return async (dir) => {
+                const ls = await this.rfs.ls(dir);
+                return ls.stat ? ls.data : undefined;
+            };
+            case "fs": return async (dir) => {
+                try {
+                    return fs.readdirSync(resolveFullPath(dir), { withFileTypes: true })
+                        .map(e => ({ name: e.name, type: e.isDirectory() ? "folder" : "file" }));
+                } catch {
+                    return undefined;
+                }
+            };
+            case "pfs": return async (dir) => {
+                if (!this.pfs) return undefined;
+                const ls = await this.pfs.ls(dir);
+                return ls.stat ? ls.data.map(f => ({ name: f.basename, type: f.type })) : undefined;
+            };
+        }
+    }
+
+    // the backend of a path like rec:/a, pan:/a or local:/a and the path in it
+    private async getStorage(cmd: string, path: string): Promise<[StorageBackend, StoragePath]> {
+        const storagePath = parseStoragePath(path);
+        if (!storagePath) {
+            throw new Error(`${cmd}: ${path}: no backend, begin the path with ${storageSchemes.map(s => s + ":").join(", ")}`);
+        }
+        switch (storagePath.scheme) {
+            case "rec": return [new RecBackend(this.rfs), storagePath];
+            case "pan": {
+                if (!this.pfs) {
+                    throw new Error("Please first login to Pan WebDav with 'webdav-login' command.");
+                }
+                return [new PanDavBackend(this.pfs), storagePath];
+            }
+            case "local": {
+                if (!this.lfs) {
+                    // relative local paths are in the folder the shell was started in, like the other commands
+                    this.lfs = new LocalFileSystem();
+                    await this.lfs.cd(process.cwd());
+                }
+                return [new LocalBackend(this.lfs), storagePath];
+            }
+        }
+    }
+
+    // forget the cached listings of a rec path changed by fs
+    private clearStorageCache(path: StoragePath, recursive: boolean) {
+        if (path.scheme !== "rec") return;
+        this.rfc.clearCache(resolveRecFullPath(this.rfs, path.path), recursive);
+        this.rfc.save();
+    }
+
+    // run "fs <operation> <path>...", the same operations on every backend, see StorageBackend
+    private async runStorage(cmd: string, args: string[]) {
+        const [operation, ...rest] = args;
+        const usage = `Usage: ${commands[cmd].usage}`;
+        switch (operation) {
+            case "ls": {
+                if (rest.length !== 1) throw new Error(usage);
+                const [backend, path] = await this.getStorage(cmd, rest[0]);
+                const ls = await backend.ls(path.path);
+                if (!ls.stat) {
+                    throw new Error(`${cmd}: ${ls.msg}`);
+                }
+                const formatter = new TableFormatter([
+                    { name: "name", width: 40 },
+                    { name: "type", width: 8 },
+                    { name: "size", width: 10 },
+                    { name: "modified", width: 24 }
+                ]);
+                const rows = ls.data.map(f => ({
+                    name: { value: f.name, color: f.type === "folder" ? "blue" : "green" },
+                    type: { value: f.type },
+                    size: { value: byteToSize(f.size) },
+                    modified: { value: f.modified }
+                }));
+                this.emit(ls.data, () => console.log(formatter.formatTable(rows)));
+                break;
+            }
+            case "stat": {
+                if (rest.length !== 1) throw new Error(usage);
+                const [backend, path] = await this.getStorage(cmd, rest[0]);
+                const stat = await backend.stat(path.path);
+                if (!stat.stat) {
+                    throw new Error(`${cmd}: ${stat.msg}`);
+                }
+                const formatter = new TableFormatter([
+                    { name: "field", width: 12 },
+                    { name: "value", width: 60 }
+                ]);
+                const data = Object.entries({
+                    ...stat.data,
+                    size: `${stat.data.size} (${byteToSize(stat.data.size)})`
+                }).map(([field, value]) => ({
+                    field: { value: field },
+                    value: { value: value }
+                }));
+                this.emit(stat.data, () => console.log(formatter.formatTable(data)));
+                break;
+            }
+            case "du": {
+                if (rest.length !== 1) throw new Error(usage);
+                const [backend, path] = await this.getStorage(cmd, rest[0]);
+                const du = await backend.du(path.path);
+                if (!du.stat) {
+                    throw new Error(`${cmd}: ${du.msg}`);
+                }
+                this.emit({ path: rest[0], bytes: du.data }, () => console.log(`${byteToSize(du.data)}    ${rest[0]}`));
+                break;
+            }
+            case "mkdir": {
+                if (rest.length !== 1) throw new Error(usage);
+                const [backend, path] = await this.getStorage(cmd, rest[0]);
+                const mkdir = await backend.mkdir(path.path);
+                if (!mkdir.stat) {
+                    throw new Error(`${cmd}: ${mkdir.msg}`);
+                }
+                this.clearStorageCache(path, false);
+                break;
+            }
+            case "rm": {
+                if (rest.length === 0) throw new Error(usage);
+                for (const src of rest) {
+                    const [backend, path] = await this.getStorage(cmd, src);
+                    const rm = await backend.rm(path.path);
+                    if (!rm.stat) {
+                        throw new Error(`${cmd}: ${rm.msg}`);
+                    }
+                    this.clearStorageCache(path, false);
+                }
+                break;
+            }
+            case "rename": {
+                const [src, name] = rest;
+                if (rest.length !== 2 || !name || name.includes("/")) throw new Error(usage);
+                const [backend, path] = await this.getStorage(cmd, src);
+                const rename = await backend.rename(path.path, name);
+                if (!rename.stat) {
+                    throw new Error(`${cmd}: ${rename.msg}`);
+                }
+                this.clearStorageCache(path, false);
+                break;
+            }
+            case "cp":
+            case "mv": {
+                if (rest.length < 2) throw new Error(usage);
+                const [destBackend, dest] = await this.getStorage(cmd, rest[rest.length - 1]);
+                const [signal, pauseSignal] = this.startTransfer();
+                for (const src of rest.slice(0, -1)) {
+                    if (signal.aborted) {
+                        throw new Error(`${cmd}: ${operation} was cancelled`);
+                    }
+                    const [srcBackend, path] = await this.getStorage(cmd, src);
+                    let ret: RetType<void>;
+                    if (srcBackend.scheme === destBackend.scheme) {
+                        // the backend copies or moves in place
+                        ret = await (operation === "cp" ? srcBackend.cp(path.path, dest.path) : srcBackend.mv(path.path, dest.path));
+                    } else {
+                        // other backends are streamed to, total size for the progress line, 0 if unknown
+                        const du = await srcBackend.du(path.path);
+                        const total = du.stat ? du.data : 0;
+                        ret = await (operation === "cp" ? copyBetween : moveBetween)(srcBackend, path.path, destBackend, dest.path, {
+                            onProgress: (transferred, rate) => this.showProgress(`${cmd} ${operation}`, transferred, total, rate),
+                            abortSignal: signal,
+                            pauseSignal: pauseSignal
+                        });
+                        this.endProgress();
+                    }
+                    if (!ret.stat) {
+                        throw new Error(`${cmd}: ${ret.msg}`);
+                    }
+                    if (operation === "mv") this.clearStorageCache(path, false);
+                }
+                this.clearStorageCache(dest, true);
+                break;
+            }
+            default: {
+                throw new Error(usage);
+            }
+        }
+    }
+
+    // the shell state of a saved Rec account, created when first used
+    // the default account is the same profile as the account it points to
+    private getRecProfile(cmd: string, account: string | undefined): RecProfile {
+        const key = profileManager.resolveAccount("rec", account) ?? "";
+        let profile = this.recProfiles.get(key);
+        if (!profile) {
+            let userAuth: UserAuth | undefined;
+            try {
+                userAuth = userAuthSaver.getUserAuth(account);
+            } catch (err) {
+                throw new Error(`${cmd}: ${err instanceof Error ? err.message : err}`);
+            }
+            if (!userAuth) {
+                throw new Error(`${cmd}: ${account ?? "default"}: not logged in, use 'login ${account ?? "<account>"}' first`);
+            }
+            const api = new RecAPI(userAuth, (userAuth) => userAuthSaver.setUserAuth(account, userAuth));
+            const resolved = profileManager.resolveAccount("rec", account);
+            const rfc = new RecFileCache(resolved, this.cacheTtl);
+            profile = { rfs: new RecFileSystem(api, rfc, resolved), rfc: rfc };
+            this.recProfiles.set(key, profile);
+        }
+        return profile;
+    }
+
+    private getPanDavProfile(cmd: string, account: string | undefined): PanDavProfile {
+        const key = account ?? "";
+        let profile = this.panDavProfiles.get(key);
+        if (!profile) {
+            let panDavAuth: PanDavAuth | undefined;
+            try {
+                panDavAuth = panDavAuthSaver.getPanDavAuth(account);
+            } catch (err) {
+                throw new Error(`${cmd}: ${err instanceof Error ? err.message : err}`);
+            }
+            if (!panDavAuth) {
+                throw new Error(`${cmd}: ${account ?? "default"}: not logged in, use 'login -w ${account ?? "<account>"}' first`);
+            }
+            const client = createPanDavClient(panDavAuth);
+            profile = { client: client, pfs: new PanDavFileSystem(client) };
+            this.panDavProfiles.set(key, profile);
+        }
+        return profile;
+    }
+
+    // switch the commands without "w" to another Rec account
+    private useRec(cmd: string, account: string | undefined): void {
+        const profile = this.getRecProfile(cmd, account);
+        this.rfc.save();
+        this.rfs = profile.rfs;
+        this.rfc = profile.rfc;
+        this.account = account;
+        // readline keeps the array it was given, so the history of the account replaces its content
+        if (!this.nonInteractive) this.history.splice(0, this.history.length, ...recHistory.getHistory(account));
+    }
+
+    // switch the commands with "w" to another WebDav account
+    private usePanDav(cmd: string, account: string | undefined): void {
+        const profile = this.getPanDavProfile(cmd, account);
+        this.client = profile.client;
+        this.pfs = profile.pfs;
+        this.panDavAccount = account;
+    }
+
+    // ask for a password without echoing it, it is not added to the history
+    private askPassword(query: string): Promise<string> {
+        if (this.nonInteractive) {
+            return Promise.reject(new Error("a password cannot be entered in a script, use 'reccli-ts login' first"));
+        }
+        // readline has no option to hide the input, so its output is muted and its history turned off while asking
+        const rl = this.rl as Interface & { historySize: number };
+        const historySize = rl.historySize;
+        const restore = () => {
+            this.terminal.muted = false;
+            rl.historySize = historySize;
+        };
+        // Ctrl+C cancels the question
+        this.abortController = new AbortController();
+        const signal = this.abortController.signal;
+        return new Promise((resolve, reject) => {
+            signal.addEventListener("abort", () => {
+                restore();
+                reject(new Error("cancelled"));
+            });
+            rl.question(query, { signal }, (answer) => {
+                // the line break after the input was muted too
+                this.terminal.muted = false;
+                this.terminal.write("\r\n");
+                // the line break written by Ctrl+C is not an answer, the question is aborted right after
+                if (this.interrupted) return;
+                restore();
+                resolve(answer);
+            });
+            rl.historySize = 0;
+            // the query is written, the input is not
+            this.terminal.muted = true;
+        });
+    }
+
+    // replace "~name" at the start of a pattern by the bookmarked path, "~" in local paths is the home folder instead
+    private expandBookmark(pattern: string): string {
+        const match = pattern.match(/^~([^/]+)(?=\/|$)/);
+        const path = match ? this.bookmarks.get(match[1]) : undefined;
+        if (path === undefined) return pattern;
+        return escapeGlob(path) + pattern.slice(match![0].length);
+    }
+
+    // replace the first word of each command in a pipeline by its alias
+    // an alias is not replaced again inside its own command, so "alias ls='ls -i'" works
+    private expandAliases(patterns: string[], expanded: string[] = []): string[] {
+        const result: string[] = [];
+        for (let i = 0; i < patterns.length; i++) {
+            const command = this.aliases.get(patterns[i]);
+            if ((i === 0 || patterns[i - 1] === "|") && command !== undefined && !expanded.includes(patterns[i])) {
+                result.push(...this.expandAliases(parseShellPatterns(command), [...expanded, patterns[i]]));
+            } else {
+                result.push(patterns[i]);
+            }
+        }
+        return result;
+    }
+
+    // split a command line into the commands of a pipeline, the command names are unescaped
+    private splitPipeline(patterns: string[]): string[][] {
+        const stages: string[][] = [[]];
+        for (const pattern of patterns) {
+            if (pattern === "|") {
+                stages.push([]);
+            } else {
+                stages[stages.length - 1].push(pattern);
+            }
+        }
+        if (stages.length > 1 && stages.some(stage => stage.length === 0)) {
+            throw new Error("Empty command in pipeline");
+        }
+        return stages.map(([cmd, ...rest]) => cmd === undefined ? [] : [unescapeGlob(cmd), ...rest]);
+    }
+
+    // write paths to the pipe if the output is piped, otherwise print them one per line, or data in other output formats
+    private writePaths(paths: string[], data: unknown): void {
+        if (this.pipeOutput) {
+            this.pipeOutput.push(...paths);
+        } else {
+            this.emit(data, () => paths.forEach(p => console.log(p)));
+        }
+    }
+
+    // build the filter of find or findw from its options
+    private async parseFindFilter(cmd: "find" | "findw", options: { [key: string]: string | true }): Promise<FindFilter> {
+        const filter: FindFilter = {};
+        for (const [key, value] of Object.entries(options)) {
+            if (value === true || value === "" || !commands[cmd].valueOptions!.includes(key)) {
+                throw new Error(`Usage: ${commands[cmd].usage}`);
+            }
+            const plain = unescapeGlob(value);
+            switch (key) {
+                case "-name": {
+                    filter.name = value;
+                    break;
+                }
+                case "-size": {
+                    filter.size = parseFindSize(plain);
+                    if (!filter.size) throw new Error(`${cmd}: invalid size: ${plain}`);
+                    break;
+                }
+                case "-type": {
+                    if (plain !== "f" && plain !== "d") throw new Error(`${cmd}: invalid type: ${plain}`);
+                    filter.type = plain === "f" ? "file" : "folder";
+                    break;
+                }
+                case "-newer": {
+                    filter.newer = Date.parse(plain);
+                    if (!isNaN(filter.newer)) break;
+                    // not a date, then modification time of the given file
+                    if (cmd === "find") {
+                        const index = plain.lastIndexOf("/");
+                        const ls = await this.rfs.ls(index === -1 ? "." : plain.slice(0, index) || "/");
+                        const file = ls.stat ? ls.data.find(f => f.name === plain.slice(index + 1)) : undefined;
+                        filter.newer = file ? Date.parse(file.lastModified) : NaN;
+                    } else {
+                        const stat = await this.pfs!.stat(plain);
+                        filter.newer = stat.stat ? Date.parse(stat.data.lastmod) : NaN;
+                    }
+                    if (isNaN(filter.newer)) throw new Error(`${cmd}: invalid date or file: ${plain}`);
+                    break;
+                }
+                case "-creator": {
+                    filter.creator = plain;
+                    break;
+                }
+            }
+        }
+        return filter;
+    }
+
+    // split the arguments of a command given multiple sources, one argument list for each source
+    private splitSources(cmd: string, args: string[]): string[][] {
+        const command = commands[cmd];
+        if (!command?.multiple || command.batch) return [args];
+
+        const { options, rest } = parseOptions(args, command.valueOptions);
+        if (rest.length <= command.args) return [args];
+
+        const optionArgs = Object.entries(options).flatMap(([k, v]) => v === true ? [k] : [k, v]);
+        // keep "--" so that sources starting with "-" are not taken as options
+        if (args.includes("--")) optionArgs.push("--");
+        if (command.args === 1) {
+            return rest.map(src => [...optionArgs, src]);
+        }
+        const dest = rest[rest.length - 1];
+        return rest.slice(0, -1).map(src => [...optionArgs, src, dest]);
+    }
+
+    // verify the files of a finished upload, download or transfer and print a summary
+    // if retransfer, mismatched files are transferred once more before the final check
+    private async verify(cmd: "upload" | "download" | "transfer", src: string, dst: string, retransfer: boolean): Promise<void> {
+        const verify = await this.rfs.verify(cmd, src, dst, retransfer, this.client);
+        if (!verify.stat) {
+            throw new Error(`${cmd}: verify failed: ${verify.msg}`);
+        }
+
+        const { checked, mismatches } = verify.data;
+        const formatter = new TableFormatter([
+            { name: "file", width: 60 },
+            { name: "reason", width: 60 }
+        ]);
+        this.emit(verify.data, () => {
+            console.log(`Verified ${checked} files, ${mismatches.length} mismatched`);
+            if (mismatches.length === 0) return;
+            console.log(formatter.formatTable(mismatches.map(m => ({
+                file: { value: m.dest, color: "red" },
+                reason: { value: m.reason }
+            }))));
+        });
+        if (mismatches.length === 0) return;
+        // mismatches are only in the result of text output
+        if (this.output !== "text") mismatches.forEach(m => this.log(`[MISMATCH] ${m.dest}: ${m.reason}`));
+        throw new Error(`${cmd}: ${mismatches.length} files failed verification`);
+    }
+
+    // show a live progress line, only if stdout is a terminal and the output is text
+    private showProgress(cmd: string, transferred: number, total: number, rate: number): void {
+        if (!process.stdout.isTTY || this.output !== "text") return;
+        const percent = total > 0 ? ` (${Math.min(100, transferred / total * 100).toFixed(1)}%)` : "";
+        const size = total > 0 ? `${byteToSize(transferred)} / ${byteToSize(total)}` : byteToSize(transferred);
+        readline.clearLine(process.stdout, 0);
+        readline.cursorTo(process.stdout, 0);
+        process.stdout.write(`${cmd}: ${size}${percent}, ${byteToRate(rate)}`);
+        this.progressShown = true;
+    }
+
+    // signals of the transfer about to run, Ctrl+C aborts it and Ctrl+S pauses or resumes it
+    private startTransfer(): [AbortSignal, PauseSignal] {
+        this.abortController = new AbortController();
+        this.pauseSignal = new PauseSignal();
+        return [this.abortController.signal, this.pauseSignal];
+    }
+
+    // pause the running transfer or resume it, chunks in flight are allowed to finish
+    private togglePause(): void {
+        if (!this.pauseSignal) return;
+        this.pauseSignal.paused = !this.pauseSignal.paused;
+        this.endProgress();
+        console.error(this.pauseSignal.paused ? "[INFO] transfer paused, press Ctrl+S to resume" : "[INFO] transfer resumed");
+    }
+
+    // move to a new line after the live progress line
+    private endProgress(): void {
+        if (!this.progressShown) return;
+        process.stdout.write("\n");
+        this.progressShown = false;
+    }
+
+    // take the match of the reverse search, and replace !n, !-n and !! by the command they recall
+    private expandHistory(line: string): string {
+        // readline has added the line to the history unless it is blank or the same as the last one
+        const raw = line;
+        if (this.search) {
+            line = this.search.match ?? line;
+            this.endSearch(false);
+        } else {
+            const recall = line.trim().match(/^!(!|-?\d+)$/);
+            if (!recall) return line;
+            // the first entry is the line itself
+            const older = this.history.slice(1);
+            const index = recall[1] === "!" ? 0 : recall[1].startsWith("-") ? Number(recall[1].slice(1)) - 1 : older.length - Number(recall[1]);
+            const command = older[index];
+            if (command === undefined || index < 0) {
+                console.log(`${line.trim()}: event not found`);
+                line = "";
+            } else {
+                // print the recalled command like bash
+                console.log(command);
+                line = command;
+            }
+        }
+        // the history keeps the command actually run instead of the query or !n
+        if (this.history[0] === raw) {
+            if (line) this.history[0] = line;
+            else this.history.shift();
+            recHistory.setHistory(this.account, this.history);
+        }
+        return line;
+    }
+
+    // reverse search of the history by Ctrl+R, the line is the query and the prompt shows the match
+    // Ctrl+R again finds an older match, Enter runs the match, Esc or moving the cursor edits it, Ctrl+G cancels
+    private onKeypress(key?: { name?: string, ctrl?: boolean }): void {
+        if (!key) return;
+        if (key.ctrl && key.name === "s" && this.running) {
+            this.togglePause();
+            return;
+        }
+        if (key.ctrl && key.name === "r") {
+            if (!this.search) {
+                this.search = { index: 0, prompt: this.rl.getPrompt() };
+            } else if (this.search.match !== undefined) {
+                this.search.index++;
+            }
+            this.updateSearch();
+            return;
+        }
+        if (!this.search) return;
+        // Enter is handled by expandHistory, Ctrl+C by interrupt
+        if (key.name === "return" || key.name === "enter" || (key.ctrl && key.name === "c")) return;
+        if (key.ctrl && key.name === "g") {
+            this.endSearch(false);
+            return;
+        }
+        if (["escape", "left", "right", "up", "down", "home", "end", "tab"].includes(key.name ?? "")) {
+            this.endSearch(true);
+            return;
+        }
+        // the query is changed, search again from the newest
+        this.search.index = 0;
+        this.updateSearch();
+    }
+
+    private updateSearch(): void {
+        if (!this.search) return;
+        const query = this.rl.line;
+        const index = this.history.findIndex((h, i) => i >= this.search!.index && h.includes(query));
+        if (index !== -1) {
+            this.search.index = index;
+            this.search.match = this.history[index];
+        }
+        // the last match is kept if nothing matches
+        const failing = index === -1 ? "failing " : "";
+        this.rl.setPrompt(`(${failing}reverse-i-search: ${this.search.match ?? ""}): `);
+        this.rl.prompt(true);
+    }
+
+    // if keep, the match is put into the line to be edited
+    private endSearch(keep: boolean): void {
+        if (!this.search) return;
+        const { match, prompt } = this.search;
+        this.search = undefined;
+        this.rl.setPrompt(prompt);
+        if (keep && match !== undefined) {
+            // clear the line and write the match
+            this.rl.write(null, { ctrl: true, name: "e" });
+            this.rl.write(null, { ctrl: true, name: "u" });
+            this.rl.write(match);
+        }
+        this.rl.prompt(true);
+    }
+
     private getCommandCompletions(cmd: string): string[] {
-        return Object.keys(commands).filter(c => c.startsWith(cmd) && c !== cmd);
+        return [...new Set([...Object.keys(commands), ...this.aliases.keys()])].filter(c => c.startsWith(cmd) && c !== cmd);
+    }
+
+    // replace the alias at the start of a line being completed, so that its arguments complete like the command
+    private expandAliasLine(line: string): string {
+        const expanded = new Set<string>();
+        for (; ;) {
+            // the first word is complete once a space follows it
+            const match = line.match(/^ *([^ \\]+) /);
+            const command = match ? this.aliases.get(match[1]) : undefined;
+            if (!match || command === undefined || expanded.has(match[1])) return line;
+            expanded.add(match[1]);
+            line = command + line.slice(match[0].length - 1);
+        }
     }
 
     // arg is the last argument, may be empty or incomplete
     // type is "rfs" or "fs", "rfs" means the path is in the rec file system, "fs" means the path is in the local file system, "pfs" means the path is in the pan dav file system
-    private async getPathCompletions(arg: string, type: "rfs" | "fs" | "pfs"): Promise<string[]> {
+    private async getPathCompletions(arg: string, type: PathType): Promise<string[]> {
         try {
-            // support space in file name
-            arg = unescapeFromShell(arg);
+            // support space in file name, escaped glob characters keep their escape to tell patterns from paths
+            let pattern = parseShellPatterns(arg)[0] ?? "";
+
+            // bookmarks complete by name, the paths in them from the bookmarked folder
+            if (type !== "fs" && pattern.startsWith("~")) {
+                const slash = pattern.indexOf("/");
+                if (slash === -1) {
+                    return [...this.bookmarks.keys()].map(name => `~${name}/`)
+                        .filter(b => b.startsWith(pattern) && b !== pattern)
+                        .map(b => escapePathToShell(b));
+                }
+                const path = this.bookmarks.get(pattern.slice(1, slash));
+                if (path !== undefined) pattern = escapeGlob(path.replace(/\/?$/, "/")) + pattern.slice(slash + 1);
+            }
+
+            // preview the matches of a glob pattern
+            if (isGlob(pattern)) {
+                return (await expandGlob(pattern, this.getGlobLister(type), true)).map(f => escapePathToShell(f));
+            }
+            arg = unescapeGlob(pattern);
+
             // get the directory path and file prefix
             const dirPath = arg.slice(0, arg.lastIndexOf("/") + 1) ?? "./";
             const filePrefix = arg.slice(arg.lastIndexOf("/") + 1) ?? "";
@@ -800,19 +2263,15 @@ class RecCli {
                 if (cache)
                     files = cache;
                 else {
-                    const ls = await this.rfs.ls(dirPath);
+                    // parent folders are resolved from the cache too
+                    const ls = await this.rfs.ls(dirPath, true);
 
                     if (!ls.stat) {
                         return [];
                     }
 
                     // update cache
-                    this.rfc.updateCacheFolder(cachePath, ls.data.map(f => ({
-                        name: f.name,
-                        type: f.type,
-                        // children must be undefined, because we need children to find whether it's an empty folder or a folder not cached
-                        children: undefined
-                    })));
+                    this.rfc.updateCacheFolder(cachePath, ls.data);
 
                     files = ls.data;
                 }
@@ -820,8 +2279,8 @@ class RecCli {
                 return files.map(f => f.name + (f.type === "folder" ? "/" : ""))
                     .filter(f => f.startsWith(filePrefix) && f !== filePrefix)
                     .map(f => dirPath + f)
-                    // support space in file name
-                    .map(f => escapeToShell(f));
+                    // support space and glob characters in file name
+                    .map(f => escapePathToShell(f));
             } else if (type === "fs") {
                 // resolve the path
                 const path = resolveFullPath(dirPath);
@@ -846,8 +2305,8 @@ class RecCli {
                     .filter(f => f.startsWith(filePrefix) && f !== filePrefix)
                     .filter(f => showHidden || !f.startsWith("."))
                     .map(f => dirPath + f)
-                    // support space in file name
-                    .map(f => escapeToShell(f));
+                    // support space and glob characters in file name
+                    .map(f => escapePathToShell(f));
             } else if (type === "pfs") {
                 // if no client, return empty completions
                 if (!this.client) {
@@ -879,8 +2338,8 @@ class RecCli {
                     .filter(f => f.startsWith(filePrefix) && f !== filePrefix)
                     .filter(f => showHidden || !f.startsWith("."))
                     .map(f => dirPath + f)
-                    // support space in file name
-                    .map(f => escapeToShell(f));
+                    // support space and glob characters in file name
+                    .map(f => escapePathToShell(f));
             }
         } catch (err) {
             // if error, return empty completions
@@ -899,18 +2358,28 @@ class RecCli {
         // 1. first parse the command
         const [cmd, ...args] = parseShellCommand(line);
 
-        // last arg with possible space
-        const lastArgOriginal = escapeToShell(args[args.length - 1] ?? "");
+        // last arg as typed, with possible escaped space
+        let lastArgStart = 0;
+        for (let i = 0; i < line.length; i++) {
+            if (line[i] === "\\") i++;
+            else if (line[i] === " ") lastArgStart = i + 1;
+        }
+        const lastArgOriginal = args.length === 0 ? "" : line.slice(lastArgStart);
 
         const isLastCharSpace = line[line.length - 1] === " " && line[line.length - 2] !== "\\";
         // if the last char is space, then the prefix is the whole line
         // otherwise, the prefix is the line without the last argument
-        const prefix = isLastCharSpace ? line : line.slice(0, line.lastIndexOf(lastArgOriginal));
+        const prefix = isLastCharSpace ? line : line.slice(0, line.length - lastArgOriginal.length);
         // if the last char is space, then the suffix is empty
         // otherwise, the suffix is the last argument
         const suffix = isLastCharSpace ? "" : lastArgOriginal;
-        // args length, if the last char is space, then add 1
-        const len = args.length + (isLastCharSpace ? 1 : 0);
+        // args length without options, if the last char is space, then add 1
+        let len = args.filter(arg => !arg.startsWith("-")).length + (isLastCharSpace ? 1 : 0);
+        // extra sources of a command accepting multiple sources complete like the first one
+        if (commands[cmd]?.multiple && len > commands[cmd].args) len = 1;
+
+        // options are not completed
+        if (suffix.startsWith("-")) return emptyResult;
 
         // if len is 0, it's command completion
         if (len === 0) {
@@ -930,6 +2399,7 @@ class RecCli {
             case "mkdir":
             case "rmdir":
             case "unwrap":
+            case "find":
                 {
                     if (len === 1) {
                         return {
@@ -945,6 +2415,7 @@ class RecCli {
             case "mkdirw":
             case "rmdirw":
             case "unwrapw":
+            case "findw":
                 {
                     if (len === 1) {
                         return {
@@ -960,6 +2431,7 @@ class RecCli {
             case "recycle":
             case "rename":
             case "du":
+            case "stat":
                 {
                     if (len === 1) {
                         return {
@@ -1041,6 +2513,24 @@ class RecCli {
                 }
                 break;
             }
+            // len === 1 and only directory in local fs
+            // len === 2 and only directory
+            case "sync": {
+                if (len === 1) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: (await this.getPathCompletions(suffix, "fs")).filter(c => c.endsWith("/"))
+                    };
+                } else if (len === 2) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: (await this.getPathCompletions(suffix, "rfs")).filter(c => c.endsWith("/"))
+                    };
+                }
+                break;
+            }
             // len === 1 and file or directory
             // len === 2 and only directory in local fs
             case "download": {
@@ -1059,6 +2549,60 @@ class RecCli {
                 }
                 break;
             }
+            // len === 1 and file or directory in pan dav fs
+            // len === 2 and only directory in local fs
+            case "downloadw": {
+                if (len === 1) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: await this.getPathCompletions(suffix, "pfs")
+                    };
+                } else if (len === 2) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: (await this.getPathCompletions(suffix, "fs")).filter(c => c.endsWith("/"))
+                    };
+                }
+                break;
+            }
+            // len === 1 and file in local fs
+            // len === 2 and only directory in pan dav fs
+            case "uploadw": {
+                if (len === 1) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: await this.getPathCompletions(suffix, "fs")
+                    };
+                } else if (len === 2) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: (await this.getPathCompletions(suffix, "pfs")).filter(c => c.endsWith("/"))
+                    };
+                }
+                break;
+            }
+            // len === 1 and file or directory in pan dav fs
+            // len === 2 and only directory
+            case "transferw": {
+                if (len === 1) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: await this.getPathCompletions(suffix, "pfs")
+                    };
+                } else if (len === 2) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: (await this.getPathCompletions(suffix, "rfs")).filter(c => c.endsWith("/"))
+                    };
+                }
+                break;
+            }
             // len === 1 and file or directory
             // len === 2 and only directory in pan dav fs
             case "transfer": {
@@ -1085,6 +2629,94 @@ class RecCli {
                     completions: this.getCommandCompletions(suffix)
                 }
             }
+            // len === 1 and option, len === 2 and value
+            case "set": {
+                const values: { [key: string]: string[] } = { output: outputFormats };
+                const choices = len === 1 ? Object.keys(values) : len === 2 ? values[args[0]] ?? [] : [];
+                return {
+                    prefix: prefix,
+                    suffix: suffix,
+                    completions: choices.filter(c => c.startsWith(suffix))
+                };
+            }
+            // len === 1 and account
+            case "use":
+            case "logout": {
+                if (len === 1) {
+                    const kind = args.includes("-w") ? "pandav" : "rec";
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: profileManager.listProfiles(kind).map(p => p.account ?? "default").filter(c => c.startsWith(suffix) && c !== suffix)
+                    };
+                }
+                break;
+            }
+            // len === 1 and alias name
+            case "alias":
+            case "unalias": {
+                if (len === 1 || cmd === "unalias") {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: [...this.aliases.keys()].filter(c => c.startsWith(suffix) && c !== suffix)
+                    };
+                }
+                break;
+            }
+            // len === 1 and bookmark name, len === 2 and folder
+            case "bookmark": {
+                if (len === 1) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: [...this.bookmarks.keys()].filter(c => c.startsWith(suffix) && c !== suffix)
+                    };
+                } else if (len === 2) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: (await this.getPathCompletions(suffix, "rfs")).filter(c => c.endsWith("/"))
+                    };
+                }
+                break;
+            }
+            // len === 1 and operation, then paths beginning with a backend
+            case "fs": {
+                if (len === 1) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: ["ls", "stat", "du", "mkdir", "rm", "rename", "cp", "mv"].filter(c => c.startsWith(suffix))
+                    };
+                }
+                const path = parseStoragePath(suffix);
+                if (!path) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: storageSchemes.map(s => s + ":/").filter(c => c.startsWith(suffix) && c !== suffix)
+                    };
+                }
+                const type: PathType = path.scheme === "rec" ? "rfs" : path.scheme === "pan" ? "pfs" : "fs";
+                const scheme = path.scheme + ":";
+                return {
+                    prefix: prefix,
+                    suffix: suffix,
+                    completions: (await this.getPathCompletions(suffix.slice(scheme.length), type)).map(c => scheme + c)
+                };
+            }
+            // len === 1 and subcommand
+            case "cache": {
+                if (len === 1) {
+                    return {
+                        prefix: prefix,
+                        suffix: suffix,
+                        completions: ["clear", "stats"].filter(c => c.startsWith(suffix))
+                    };
+                }
+                break;
+            }
             // len === 0
             case "whoami":
             case "groups":
@@ -1104,12 +2736,26 @@ class RecCli {
         (async () => {
             try {
 
-                const { prefix, suffix, completions } = await this.getCompletionResult(line);
+                // arguments of an alias complete like those of its command
+                const expanded = this.expandAliasLine(line);
+                const result = await this.getCompletionResult(expanded);
+                const { suffix, completions } = result;
+                // the part of the line kept before the completion, as typed
+                const prefix = line.slice(0, line.length - (expanded.length - result.prefix.length));
 
                 if (completions.length === 0)
                     // if no completions, return the line
                     return callback(null, [completions, line]);
 
+                // a glob pattern is replaced by its only match, otherwise the matches are printed as a preview
+                if (isGlob(parseShellPatterns(suffix)[0] ?? "")) {
+                    if (completions.length === 1)
+                        return callback(null, [completions, suffix]);
+                    process.stdout.write("\n" + completions.join("  ") + "\n");
+                    this.rl.prompt(true);
+                    return callback(null, [[], line]);
+                }
+
                 // find the common prefix
                 const commonPrefix = completions.reduce((prev, curr) => {
                     let i = 0;
@@ -1,81 +1,137 @@
-import { FileType } from "@services/rec-api.js"
+import fs from "fs"
+import crypto from 'crypto';
+import { homedir } from "os";
+import { RecFile } from "@services/rec-file-system.js"
 
-// cache file tree
-export type CacheFile = { 
-    name: string,
-    type: FileType,
-    // if type is file, it surly be undefined
-    // if type if folder, when it's undefined, it means it's not loaded yet
-    // when it's an empty array, it means it's loaded but it's an empty folder
-    children: CacheFile[] | undefined
+const dirPath = `${homedir()}/.reccli-ts/cache`;
+
+// listing of a folder and the time it was listed
+export type CacheEntry = {
+    time: number,
+    files: RecFile[]
+}
+
+export type CacheStats = {
+    // file the cache is persisted to, undefined if only in memory
+    path?: string,
+    bytes: number,
+    ttl: number,
+    folders: number,
+    expired: number,
+    files: number,
+    // lookups in this session
+    hits: number,
+    misses: number
+}
+
+function getFileName(account: string): string {
+    return crypto.createHash('sha256').update(account).digest('hex');
 }
 
+// cache of folder listings keyed by absolute path
+// in memory it never expires and is only used for tab completion,
+// persisted to "~/.reccli-ts/cache" it expires after ttl and is also used for path resolution and du
 export class RecFileCache {
-    private root: CacheFile = {
-        name: "/",
-        type: "folder",
-        children: undefined
+    private folders = new Map<string, CacheEntry>();
+    // file the cache is persisted to
+    private path?: string;
+    // whether there are changes not saved yet
+    private dirty = false;
+    private hits = 0;
+    private misses = 0;
+
+    // account is the student ID, undefined for the default account
+    // ttl in milliseconds, if not given, the cache is not persisted and never expires
+    constructor(account?: string, private ttl: number = Infinity) {
+        if (ttl === Infinity) return;
+        this.path = `${dirPath}/${getFileName(account ?? "default")}`;
+        this.load();
     }
 
-    constructor() {}
+    public isPersistent(): boolean {
+        return this.path !== undefined;
+    }
 
     // path must be absolute path!
     // path can be file or folder
-    // clear the parent folder of the file or folder itself
-    // if not exists, clear the root
+    // clear the parent folder of the file or folder itself, with all folders under it
+    // if not given, clear all
     public clearCache(filePath?: string, isFolder?: boolean): void {
         if (!filePath) {
-            this.root.children = undefined;
+            this.dirty ||= this.folders.size > 0;
+            this.folders.clear();
             return;
         }
 
         const path = filePath.split("/").filter(Boolean);
-        let current = this.root;
-        for (const name of isFolder ? path : path.slice(0, -1)) {
-            // if doesn't exist, do nothing
-            if (!current.children) return;
-            const next = current.children.find(child => child.name === name);
-            if (!next) return;
-            current = next;
+        const folderPath = "/" + (isFolder ? path : path.slice(0, -1)).join("/");
+        for (const key of this.folders.keys()) {
+            if (key === folderPath || key.startsWith(folderPath === "/" ? "/" : folderPath + "/")) {
+                this.folders.delete(key);
+                this.dirty = true;
+            }
         }
-        current.children = undefined;
     }
 
     // path must be absolute path!
-    // path must be a folder exists and children can exist or not
-    // if children doesn't exist, return undefined
-    public listCacheFolder(folderPath: string): CacheFile[] | undefined {
-        const path = folderPath.split("/").filter(Boolean);
-        let current = this.root;
-        for (const name of path) {
-            // if doesn't exist, return undefined
-            if (!current.children) return undefined;
-            const next = current.children.find(child => child.name === name);
-            if (!next) return undefined;
-            current = next;
+    // if not cached or expired, return undefined
+    public listCacheFolder(folderPath: string): RecFile[] | undefined {
+        const entry = this.folders.get(normalize(folderPath));
+        if (!entry || Date.now() - entry.time > this.ttl) {
+            this.misses++;
+            return undefined;
         }
-        return current.children;
+        this.hits++;
+        return entry.files;
     }
 
     // path must be absolute path!
-    // path must be a folder exists but children must be undefined
-    public updateCacheFolder(folderPath: string, files: CacheFile[]): void {
-        // check if children is undefined
-        if (files.some(f => f.children !== undefined)) {
-            throw new Error("Children of a folder must be undefined");
-        }
+    public updateCacheFolder(folderPath: string, files: RecFile[]): void {
+        this.folders.set(normalize(folderPath), {
+            time: Date.now(),
+            files: files
+        });
+        this.dirty = true;
+    }
+
+    public getStats(): CacheStats {
+        const now = Date.now();
+        const entries = [...this.folders.values()];
+        return {
+            path: this.path,
+            bytes: this.path && fs.existsSync(this.path) ? fs.statSync(this.path).size : 0,
+            ttl: this.ttl,
+            folders: entries.length,
+            expired: entries.filter(e => now - e.time > this.ttl).length,
+            files: entries.reduce((acc, e) => acc + e.files.length, 0),
+            hits: this.hits,
+            misses: this.misses
+        };
+    }
 
-        const path = folderPath.split("/").filter(Boolean);
-        let current = this.root;
-        for (const name of path) {
-            // if doesn't exist, do nothing
-            if (!current.children) return;
-            const next = current.children.find(child => child.name === name);
-            if (!next) return;
-            current = next;
+    // write the cache to disk if persistent and changed, expired folders are dropped
+    public save(): void {
+        if (!this.path || !this.dirty) return;
+        const now = Date.now();
+        const folders = Object.fromEntries([...this.folders].filter(([_, e]) => now - e.time <= this.ttl));
+        if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
+        fs.writeFileSync(this.path, JSON.stringify(folders));
+        this.dirty = false;
+    }
+
+    private load(): void {
+        if (!this.path || !fs.existsSync(this.path)) return;
+        try {
+            const folders: { [key: string]: CacheEntry } = JSON.parse(fs.readFileSync(this.path, 'utf8'));
+            this.folders = new Map(Object.entries(folders));
+        } catch {
+            // a broken cache is treated as no cache
+            this.folders.clear();
         }
-        current.children = files;
     }
+}
 
-    
-}
\ No newline at end of file
+// "/a/b/" and "a//b" are both "/a/b"
+function normalize(folderPath: string): string {
+    return "/" + folderPath.split("/").filter(Boolean).join("/");
+}
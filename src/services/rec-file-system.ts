@@ -1,14 +1,25 @@
-import RecAPI, { DiskType, FileType } from "@services/rec-api.js";
+import RecAPI, { DiskType, EntityType, FileType, parseRecTime } from "@services/rec-api.js";
 import fs from "fs";
 import { Worker } from "worker_threads";
+import { Readable } from "stream";
 import path from 'path';
 import { fileURLToPath } from "url";
 import { PanDavClient } from "./pan-dav-api.js";
+import { FileStat } from "webdav";
 import { PauseSignal } from "@utils/pause-signal.js";
 import { MultiWorkerExecutor, WorkerTask, WorkerMessage, ProgressCallback } from "@utils/worker-utils.js";
+import { TokenBroker } from "@services/token-broker.js";
 import { DownloadWorkerData } from "@services/workers/download-worker.js";
 import { TransferWorkerData } from "@services/workers/transfer-worker.js";
 import { UploadWorkerData } from "@services/workers/upload-worker.js";
+import { PanDavTransferWorkerData } from "@services/workers/pan-transfer-worker.js";
+import * as migrationManifest from "@services/rec-migration-manifest.js";
+import * as syncState from "@services/rec-sync-state.js";
+import { createFindMatcher, FindEntry, FindFilter, walkParallel } from "@utils/find-utils.js";
+import { globKeyword } from "@utils/glob.js";
+import { downloadRange } from "@utils/downloader.js";
+import { createSequentialReader, PausableDownloadStream } from "@utils/stream-utils.js";
+import { RecFileCache } from "@services/rec-file-cache.js";
 
 const dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -49,6 +60,122 @@ export type RetType<T> =
     { stat: true, data: T } |
     { stat: false, msg: string }
 
+export type VerifyMismatch = {
+    // source and destination path of the mismatched file
+    src: string,
+    dest: string,
+    reason: string
+}
+
+export type VerifyResult = {
+    // number of files checked
+    checked: number,
+    mismatches: VerifyMismatch[]
+}
+
+// algorithm a backend computes its hashes with, hashes of different algorithms cannot be compared
+// "rec" is the fingerprint of rec, the md5 of the file, or the md5 of the chunk md5s with the chunk count as suffix
+// "etag" is the version tag of webdav, it identifies a version of a file in webdav but not its content
+export type HashAlgorithm = "rec" | "etag";
+
+export type FileHash = {
+    algorithm: HashAlgorithm,
+    value: string
+}
+
+// file size and hash in rec, path is relative to the parent of the verified root
+type RecFileDigest = {
+    path: string,
+    size: number,
+    // undefined if the server has no hash of the file
+    hash?: FileHash
+}
+
+export type SyncMode = "push" | "pull" | "mirror";
+
+export type SyncAction = {
+    // upload and download overwrite the existing copy, delete moves remote files to recycle
+    action: "upload" | "download" | "delete-remote" | "delete-local" | "skip",
+    type: FileType,
+    // path relative to the synced folders
+    path: string,
+    localPath: string,
+    remotePath: string,
+    size: number,
+    // "deleted" is for mirror, the path was on both sides after the last sync and is gone on the other side now
+    reason: "new" | "size" | "newer" | "extra" | "deleted" | "conflict"
+}
+
+export type SyncResult = {
+    done: number,
+    failed: { path: string, msg: string }[]
+}
+
+export type MigrationReport = {
+    // source changes since the last run
+    added: string[],
+    modified: string[],
+    removed: string[],
+    // failures of the last run retried in this run
+    retried: string[],
+    // files skipped as already migrated
+    skipped: number,
+    transferred: number,
+    failed: { path: string, error: string }[]
+}
+
+// file found by find, path is the absolute path in rec
+export type FoundRecFile = RecFile & {
+    path: string
+}
+
+// metadata of a file or folder reported by stat
+export type RecFileStat = {
+    id: string,
+    path: string,
+    name: string,
+    type: FileType,
+    diskType: DiskType,
+    groupId?: string,
+    // label of the role and the permissions it grants
+    role: string,
+    download: boolean,
+    upload: boolean,
+    extension: string,
+    bytes: number,
+    creator: string,
+    // not every file has a creation time
+    created?: string,
+    modified: string,
+    // empty if the server has no hash of the file
+    hash: string,
+    // full metadata returned by the server
+    info: EntityType["getFileInfo"][FileType]
+}
+
+// file entry of one side in sync, path is relative to the synced folder
+type SyncEntry = {
+    type: FileType,
+    size: number,
+    mtimeMs: number
+}
+
+// modification times closer than this are treated as equal
+const syncTimeTolerance = 2000;
+
+// hash of rec as reported by the server, empty means none
+function toRecHash(hash: string | undefined): FileHash | undefined {
+    return hash ? { algorithm: "rec", value: hash } : undefined;
+}
+
+// two hashes are comparable only if they are computed by the same algorithm
+// return the reason of mismatch, undefined if they match or cannot be compared
+function compareHash(actual: FileHash | undefined, expected: FileHash | undefined): string | undefined {
+    if (!actual || !expected || actual.algorithm !== expected.algorithm) return undefined;
+    if (actual.value.toLowerCase() === expected.value.toLowerCase()) return undefined;
+    return `hash ${actual.value}, expected ${expected.value}`;
+}
+
 const cloudRoot: RecFile = {
     id: "0",
     diskType: "cloud",
@@ -98,23 +225,61 @@ const rootFolders: RecFile[] = [
     cloudRoot, recycleRoot, backupRoot, groupRoot
 ] as const;
 
+// "id:12345" or "@12345" addresses a file or folder by id, "id:<group id>:12345" in another group
+// a name of this form is still found by name if no file has the id
+const idPattern = /^(?:id:|@)(?:([^/:]+):)?([^/:]+)(?=\/|$)/;
+
+// group files by disk type and group, files in one group can be operated in one request
+function groupByDisk(files: RecFile[]): RecFile[][] {
+    const batches = new Map<string, RecFile[]>();
+    for (const file of files) {
+        const key = `${file.diskType}:${file.groupId ?? ""}`;
+        const batch = batches.get(key) ?? [];
+        // the same file given twice is operated once
+        if (!batch.some(f => f.id === file.id)) batch.push(file);
+        batches.set(key, batch);
+    }
+    return [...batches.values()];
+}
+
 // need to catch error self
 class RecFileSystem {
     // 从根目录开始的当前路径
     private cwd: RecFile[] = [];
+    // paths resolved from ids, see calcIdPath
+    private idPaths = new Map<string, string>();
+    // keeps the tokens of the workers fresh during long transfers
+    private tokenBroker: TokenBroker;
 
     constructor(
-        private api: RecAPI
-    ) { }
+        private api: RecAPI,
+        // listings are written to the cache and cleared by the operations changing them,
+        // path resolution and du read them back only if the cache is persistent
+        private cache?: RecFileCache,
+        // the account the credentials are saved as, the default account resolved, see resolveAccount in profile-manager
+        // undefined for the credentials saved as the default account itself
+        private account?: string
+    ) {
+        this.tokenBroker = new TokenBroker(api);
+    }
 
     // calcPath can be a file or a folder
-    private async calcPath(path: string): Promise<RecFile[] | null> {
+    // listings shares folder listings between calls, see calcPaths
+    private async calcPath(path: string, listings?: Map<string, Promise<RetType<RecFile[]>>>): Promise<RecFile[] | null> {
         // copy the current cwd
         let cwd = [...this.cwd];
         // first trim the path
         path = path.trim();
+        const id = path.match(idPattern);
+        // if begin with an id, then go to the file or folder with the id
+        const idPath = id ? await this.calcIdPath(id[2], id[1] ?? this.getGroupId()) : null;
+        if (idPath) {
+            cwd = idPath;
+            path = path.slice(id![0].length);
+        }
+        // if no file has the id, it is a name like "@home" and looked up as usual
         // if begin with /, then go to root
-        if (path.startsWith("/")) {
+        else if (path.startsWith("/")) {
             cwd = [];
             path = path.slice(1);
         }
@@ -131,7 +296,9 @@ class RecFileSystem {
                 continue;
             }
             // list all files in current folder
-            const files = await this.lsc(cwd);
+            const key = "/" + cwd.map(f => f.name).join("/");
+            if (listings && !listings.has(key)) listings.set(key, this.lscCached([...cwd]));
+            const files = listings ? await listings.get(key)! : await this.lscCached(cwd);
             // if ls failed, return null
             if (!files.stat) return null;
             const file = files.data.find(f => f.name === p);
@@ -143,6 +310,65 @@ class RecFileSystem {
         return cwd;
     }
 
+    // calcIdPath finds the path of a file or folder from the ids of its ancestors
+    // names are not used, so it works even if there are files with the same name in one folder
+    private async calcIdPath(id: string, groupId?: string): Promise<RecFile[] | null> {
+        // the type is unknown, try file first
+        const info = await this.api.getFileInfo({ id, type: "file" }, groupId)
+            .catch(() => this.api.getFileInfo({ id, type: "folder" }, groupId))
+            .catch(() => undefined);
+        if (!info) return null;
+
+        // ids of all ancestors from the root folder down to the parent
+        const ancestors = info.parent_path_number.split(/[^0-9A-Za-z]+/).filter(a => a && a !== "0");
+        if (info.parent_number !== "0" && ancestors[ancestors.length - 1] !== info.parent_number) ancestors.push(info.parent_number);
+
+        let cwd: RecFile[];
+        if (groupId) {
+            const groups = await this.lscCached([groupRoot]);
+            const group = groups.stat ? groups.data.find(g => g.groupId === groupId) : undefined;
+            if (!group) return null;
+            cwd = [groupRoot, group];
+        } else {
+            const root = rootFolders.find(f => f !== groupRoot && f.diskType === info.disk_type);
+            if (!root) return null;
+            cwd = [root];
+        }
+
+        for (const ancestor of [...ancestors, id]) {
+            let files = await this.lscCached(cwd);
+            // the cached listing may be out of date
+            if (files.stat && !files.data.some(f => f.id === ancestor)) files = await this.lsc(cwd);
+            if (!files.stat) return null;
+            const file = files.data.find(f => f.id === ancestor);
+            if (!file) return null;
+            cwd.push(file);
+        }
+
+        this.idPaths.set(`${groupId ?? ""}:${id}`, "/" + cwd.map(f => f.name).join("/"));
+        return cwd;
+    }
+
+    // group of the current working directory, undefined if in cloud or backup
+    private getGroupId(): string | undefined {
+        return this.cwd[0] === groupRoot ? this.cwd[1]?.groupId : undefined;
+    }
+
+    // replace the id at the beginning of src by the path it was last resolved to, see calcIdPath
+    // if not resolved yet, src is returned as is
+    public getIdPath(src: string): string {
+        const id = src.trim().match(idPattern);
+        if (!id) return src;
+        const path = this.idPaths.get(`${id[1] ?? this.getGroupId() ?? ""}:${id[2]}`);
+        return path ? path + src.trim().slice(id[0].length) : src;
+    }
+
+    // calcPaths resolves many paths, listing each folder only once
+    private async calcPaths(paths: string[]): Promise<(RecFile[] | null)[]> {
+        const listings = new Map<string, Promise<RetType<RecFile[]>>>();
+        return Promise.all(paths.map(p => this.calcPath(p, listings)));
+    }
+
     // splicePath can splice the last part of path
     private splicePath(path: string): [string, string] {
         path = path.trim();
@@ -167,6 +393,13 @@ class RecFileSystem {
     private async lsc(cwd?: RecFile[]): Promise<RetType<RecFile[]>> {
         // 如果没有传入 cwd，则使用当前路径
         cwd = cwd || this.cwd;
+        const files = await this.listFolder(cwd);
+        // keep the listing for path resolution and du
+        if (files.stat && cwd.length > 0) this.cache?.updateCacheFolder("/" + cwd.map(f => f.name).join("/"), files.data);
+        return files;
+    }
+
+    private async listFolder(cwd: RecFile[]): Promise<RetType<RecFile[]>> {
         if (cwd.length === 0) {
             // 根目录，规定只有 cloud, recycle, backup, group 四个目录
             return {
@@ -256,13 +489,34 @@ class RecFileSystem {
         };
     }
 
-    public async ls(src: string): Promise<RetType<RecFile[]>> {
+    // lsc, but the listing is read from the cache if not expired
+    private async lscCached(cwd: RecFile[]): Promise<RetType<RecFile[]>> {
+        // root folders are not listed by api
+        if (cwd.length === 0 || !this.cache?.isPersistent()) return this.lsc(cwd);
+        const files = this.cache!.listCacheFolder("/" + cwd.map(f => f.name).join("/"));
+        if (files) return {
+            stat: true,
+            data: files
+        };
+        return this.lsc(cwd);
+    }
+
+    // drop the cached listings of the folders and all folders under them, they are listed again when needed
+    // called by every operation changing the files in a folder, whether it succeeded or not
+    private clearCache(folders: RecFile[][]): void {
+        for (const folder of folders) {
+            this.cache?.clearCache("/" + folder.map(f => f.name).join("/"), true);
+        }
+    }
+
+    // cached is for tab completion, the listing may be out of date
+    public async ls(src: string, cached?: boolean): Promise<RetType<RecFile[]>> {
         const path = await this.calcPath(src);
         if (!path) return {
             stat: false,
             msg: `${src} not found`
         };
-        return this.lsc(path);
+        return cached ? this.lscCached(path) : this.lsc(path);
     }
 
     public async cd(src: string): Promise<RetType<void>> {
@@ -279,19 +533,24 @@ class RecFileSystem {
     }
 
     // dest can be a folder, if file, return false
-    public async cp(src: string, dest: string): Promise<RetType<void>> {
-        const srcPath = await this.calcPath(src);
-        if (!srcPath || srcPath.length === 0) return {
-            stat: false,
-            msg: `${src} not found`
-        };
+    // sources in the same cloud or group as dest are copied in one request,
+    // sources in other groups, cloud or backup are saved or streamed to dest, see copyAcross
+    public async cp(src: string | string[], dest: string): Promise<RetType<void>> {
+        const srcs = typeof src === "string" ? [src] : src;
+        const srcPaths = await this.calcPaths(srcs);
+        for (let i = 0; i < srcs.length; i++) {
+            const srcPath = srcPaths[i];
+            if (!srcPath || srcPath.length === 0) return {
+                stat: false,
+                msg: `${srcs[i]} not found`
+            };
+        }
         const destPath = await this.calcPath(dest);
         if (!destPath || destPath.length === 0) return {
             stat: false,
             msg: `${dest} not found`
         };
 
-        const srcFile = srcPath[srcPath.length - 1];
         const destFolder = destPath[destPath.length - 1];
         // if destFolder is not a folder, then cp failed
         if (destFolder.type !== "folder") return {
@@ -299,43 +558,71 @@ class RecFileSystem {
             msg: `${dest} is not a folder`
         };
 
-        // if srcFile is root folder, then cp failed
-        if (srcFile.id === "0") return {
-            stat: false,
-            msg: `cannot copy root folder`
-        };
-
         // if destFolder is group, then cp failed
         if (destFolder === groupRoot) return {
             stat: false,
             msg: `cannot copy to group root folder`
         };
 
-        // if groupId is different, then cp failed
-        if (srcFile.groupId !== destFolder.groupId) return {
+        // if has no upload permission, then cp failed
+        if (!destFolder.role.upload) return {
             stat: false,
-            msg: `cannot copy between different groups`
+            msg: `no upload permission`
         };
 
-        // if srcFile or destFolder is recycle, then cp failed, you should use restore or recycle
-        if (srcPath[0].diskType === "recycle" || destPath[0].diskType === "recycle") return {
-            stat: false,
-            msg: `cannot copy to or from recycle`
-        };
+        const srcFiles: RecFile[] = [];
+        for (const srcPath of srcPaths as RecFile[][]) {
+            const srcFile = srcPath[srcPath.length - 1];
 
-        // if destFolder is backup, then cp failed
-        if (destPath[0].diskType === "backup") return {
-            stat: false,
-            msg: `cannot copy to backup`
-        };
+            // if has no download permission, then cp failed
+            if (!srcFile.role.download) return {
+                stat: false,
+                msg: `no download permission`
+            };
+
+            // if srcFile is root folder, then cp failed
+            if (srcFile.id === "0") return {
+                stat: false,
+                msg: `cannot copy root folder`
+            };
+
+            // if srcFile or destFolder is recycle, then cp failed, you should use restore or recycle
+            if (srcPath[0].diskType === "recycle" || destPath[0].diskType === "recycle") return {
+                stat: false,
+                msg: `cannot copy to or from recycle`
+            };
+
+            // if destFolder is or is subfolder of srcFolder, then cp failed
+            if (destPath.length >= srcPath.length && destPath.slice(0, srcPath.length).every((f, i) => f.id === srcPath[i].id)) return {
+                stat: false,
+                msg: `cannot copy to or into subfolder`
+            };
+
+            // the same source given twice is copied once
+            if (!srcFiles.some(f => f.id === srcFile.id && f.groupId === srcFile.groupId)) srcFiles.push(srcFile);
+        }
 
-        // if destFolder is or is subfolder of srcFolder, then cp failed
-        if (destPath.length >= srcPath.length && destPath.slice(0, srcPath.length).every((f, i) => f.id === srcPath[i].id)) return {
+        if (srcFiles.length === 0) return {
             stat: false,
-            msg: `cannot copy to or into subfolder`
+            msg: `no source to copy`
         };
 
-        await this.api.operationByIdType("copy", [{ id: srcFile.id, type: srcFile.type }], destFolder.id, destFolder.diskType, destFolder.groupId);
+        try {
+            // copy in the same cloud or group, backup only takes uploads
+            const sameDisk = (f: RecFile) => f.groupId === destFolder.groupId && destPath[0].diskType !== "backup";
+            const local = srcFiles.filter(sameDisk);
+            if (local.length > 0) {
+                await this.api.operationByIdType("copy", local.map(f => ({ id: f.id, type: f.type })), destFolder.id, destFolder.diskType, destFolder.groupId);
+            }
+            await this.copyAcross(srcFiles.filter(f => !sameDisk(f)), destFolder);
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        } finally {
+            this.clearCache([destPath]);
+        }
 
         return {
             stat: true,
@@ -344,19 +631,24 @@ class RecFileSystem {
     }
 
     // dest should be a folder, if file, return false
-    public async mv(src: string, dest: string): Promise<RetType<void>> {
-        const srcPath = await this.calcPath(src);
-        if (!srcPath || srcPath.length === 0) return {
-            stat: false,
-            msg: `${src} not found`
-        };
+    // sources in the same cloud or group as dest are moved in one request,
+    // sources in other groups, cloud or backup are copied to dest, see copyAcross, and then removed
+    public async mv(src: string | string[], dest: string): Promise<RetType<void>> {
+        const srcs = typeof src === "string" ? [src] : src;
+        const srcPaths = await this.calcPaths(srcs);
+        for (let i = 0; i < srcs.length; i++) {
+            const srcPath = srcPaths[i];
+            if (!srcPath || srcPath.length === 0) return {
+                stat: false,
+                msg: `${srcs[i]} not found`
+            };
+        }
         const destPath = await this.calcPath(dest);
         if (!destPath || destPath.length === 0) return {
             stat: false,
             msg: `${dest} not found`
         };
 
-        const srcFile = srcPath[srcPath.length - 1];
         const destFolder = destPath[destPath.length - 1];
         // if destFolder is not a folder, then mv failed
         if (destFolder.type !== "folder") return {
@@ -364,43 +656,80 @@ class RecFileSystem {
             msg: `${dest} is not a folder`
         };
 
-        // if srcFile is root folder, then mv failed
-        if (srcFile.id === "0") return {
-            stat: false,
-            msg: `cannot move root folder`
-        };
-
         // if destFolder is group, then mv failed
         if (destFolder === groupRoot) return {
             stat: false,
             msg: `cannot move to group root folder`
         };
 
-        // if groupId is different, then mv failed
-        if (srcFile.groupId !== destFolder.groupId) return {
+        // if has no upload permission, then mv failed
+        if (!destFolder.role.upload) return {
             stat: false,
-            msg: `cannot move between different groups`
+            msg: `no upload permission`
         };
 
-        // if srcFile or destFolder is recycle, then mv failed, you should use restore or recycle
-        if (srcPath[0].diskType === "recycle" || destPath[0].diskType === "recycle") return {
-            stat: false,
-            msg: `cannot move to or from recycle`
-        };
+        const srcFiles: RecFile[] = [];
+        for (const srcPath of srcPaths as RecFile[][]) {
+            const srcFile = srcPath[srcPath.length - 1];
 
-        // if destFolder is backup, then mv failed
-        if (destPath[0].diskType === "backup") return {
-            stat: false,
-            msg: `cannot move to backup`
-        };
+            // moving removes the source, so both permissions are needed
+            if (!srcFile.role.download || !srcFile.role.upload) return {
+                stat: false,
+                msg: `no download or upload permission`
+            };
 
-        // if destFolder is or is subfolder of srcFolder, then mv failed
-        if (destPath.length >= srcPath.length && destPath.slice(0, srcPath.length).every((f, i) => f.id === srcPath[i].id)) return {
+            // if srcFile is root folder, then mv failed
+            if (srcFile.id === "0") return {
+                stat: false,
+                msg: `cannot move root folder`
+            };
+
+            // if srcFile or destFolder is recycle, then mv failed, you should use restore or recycle
+            if (srcPath[0].diskType === "recycle" || destPath[0].diskType === "recycle") return {
+                stat: false,
+                msg: `cannot move to or from recycle`
+            };
+
+            // if destFolder is or is subfolder of srcFolder, then mv failed
+            if (destPath.length >= srcPath.length && destPath.slice(0, srcPath.length).every((f, i) => f.id === srcPath[i].id)) return {
+                stat: false,
+                msg: `cannot move to or into subfolder`
+            };
+
+            // the same source given twice is moved once
+            if (!srcFiles.some(f => f.id === srcFile.id && f.groupId === srcFile.groupId)) srcFiles.push(srcFile);
+        }
+
+        if (srcFiles.length === 0) return {
             stat: false,
-            msg: `cannot move to or into subfolder`
+            msg: `no source to move`
         };
 
-        await this.api.operationByIdType("move", [{ id: srcFile.id, type: srcFile.type }], destFolder.id, destFolder.diskType, destFolder.groupId);
+        try {
+            // move in the same cloud or group, backup only takes uploads
+            const sameDisk = (f: RecFile) => f.groupId === destFolder.groupId && destPath[0].diskType !== "backup";
+            const local = srcFiles.filter(sameDisk);
+            if (local.length > 0) {
+                await this.api.operationByIdType("move", local.map(f => ({ id: f.id, type: f.type })), destFolder.id, destFolder.diskType, destFolder.groupId);
+            }
+
+            // remove the sources only after all of them are copied
+            const across = srcFiles.filter(f => !sameDisk(f));
+            await this.copyAcross(across, destFolder);
+            for (const batch of groupByDisk(across)) {
+                // files in groups cannot be recycled
+                const action = batch[0].groupId ? "delete" : "recycle";
+                await this.api.operationByIdType(action, batch.map(f => ({ id: f.id, type: f.type })), undefined, batch[0].diskType, batch[0].groupId);
+            }
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        } finally {
+            // the folders of the sources lose them
+            this.clearCache([...(srcPaths as RecFile[][]).map(p => p.slice(0, -1)), destPath]);
+        }
 
         return {
             stat: true,
@@ -408,21 +737,97 @@ class RecFileSystem {
         };
     }
 
-    public async rm(src: string): Promise<RetType<void>> {
-        const path = await this.calcPath(src);
-        // if path is null or path is root, then rm failed
-        if (!path || path.length === 0) return {
+    // copy files and folders in other groups, cloud or backup to destFolder
+    // group to cloud is saved by the server, others are downloaded and uploaded chunk by chunk
+    private async copyAcross(files: RecFile[], destFolder: RecFile): Promise<void> {
+        // save to cloud in one request per group
+        const saved = files.filter(f => f.groupId && !destFolder.groupId && destFolder.diskType === "cloud");
+        for (const batch of groupByDisk(saved)) {
+            await this.api.saveToCloud(batch.map(f => ({ id: f.id, type: f.type })), destFolder.id, batch[0].groupId!);
+        }
+
+        for (const file of files.filter(f => !saved.includes(f))) {
+            await this.streamCopy(file, destFolder);
+        }
+    }
+
+    // copy files and folders of another account to dest in this account
+    // the server cannot copy between accounts, so everything is streamed, see streamCopy
+    public async copyFrom(source: RecFileSystem, src: string[], dest: string): Promise<RetType<void>> {
+        const srcPaths = await source.calcPaths(src);
+        const srcFiles: RecFile[] = [];
+        for (let i = 0; i < src.length; i++) {
+            const srcPath = srcPaths[i];
+            if (!srcPath || srcPath.length === 0) return {
+                stat: false,
+                msg: `${src[i]} not found`
+            };
+            const srcFile = srcPath[srcPath.length - 1];
+
+            // if has no download permission, then cp failed
+            if (!srcFile.role.download) return {
+                stat: false,
+                msg: `no download permission`
+            };
+
+            // if srcFile is a root folder or groupRoot, then cp failed
+            if (srcFile.id === "0" || srcFile === groupRoot) return {
+                stat: false,
+                msg: `cannot copy root folder`
+            };
+
+            // if srcFile is in recycle, then cp failed, you should use restore first
+            if (srcPath[0].diskType === "recycle") return {
+                stat: false,
+                msg: `cannot copy to or from recycle`
+            };
+
+            // the same source given twice is copied once
+            if (!srcFiles.some(f => f.id === srcFile.id && f.groupId === srcFile.groupId)) srcFiles.push(srcFile);
+        }
+
+        const destPath = await this.calcPath(dest);
+        if (!destPath || destPath.length === 0) return {
             stat: false,
-            msg: `${src} not found`
+            msg: `${dest} not found`
         };
-        const file = path[path.length - 1];
-        // if path is a root folder or groupRoot, then rm failed
-        if (file.id === "0" || file === groupRoot) return {
+
+        const destFolder = destPath[destPath.length - 1];
+        // if destFolder is not a folder, then cp failed
+        if (destFolder.type !== "folder") return {
+            stat: false,
+            msg: `${dest} is not a folder`
+        };
+
+        // if destFolder is group root or recycle, then cp failed
+        if (destFolder === groupRoot || destPath[0].diskType === "recycle") return {
             stat: false,
-            msg: `cannot remove root folder or group root folder`
+            msg: `cannot copy to group root folder or recycle`
         };
 
-        await this.api.operationByIdType("delete", [{ id: file.id, type: file.type }], undefined, file.diskType, file.groupId);
+        // if has no upload permission, then cp failed
+        if (!destFolder.role.upload) return {
+            stat: false,
+            msg: `no upload permission`
+        };
+
+        if (srcFiles.length === 0) return {
+            stat: false,
+            msg: `no source to copy`
+        };
+
+        try {
+            for (const file of srcFiles) {
+                await this.streamCopy(file, destFolder, source);
+            }
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        } finally {
+            this.clearCache([destPath]);
+        }
 
         return {
             stat: true,
@@ -430,32 +835,126 @@ class RecFileSystem {
         };
     }
 
-    public async recycle(src: string): Promise<RetType<void>> {
-        const path = await this.calcPath(src);
-        // if path is null or path is root, then recycle failed
-        if (!path || path.length === 0) return {
-            stat: false,
-            msg: `${src} not found`
-        };
-        const file = path[path.length - 1];
-        // if path is a root folder or groupRoot, then recycle failed
-        if (file.id === "0" || file === groupRoot) return {
+    // copy a file or folder to destFolder by downloading and uploading it chunk by chunk, nothing is stored locally
+    // source is the file system of the account the file is in
+    private async streamCopy(file: RecFile, destFolder: RecFile, source: RecFileSystem = this): Promise<void> {
+        if (file.type === "folder") {
+            // reuse the folder if it already exists
+            const destFiles = (await this.api.listById(destFolder.id, destFolder.diskType, destFolder.groupId)).datas;
+            const existingFolder = destFiles.find(f => f.type === "folder" && f.name === file.name);
+            const folderId = existingFolder ? existingFolder.number : (await this.api.mkdirByFolderIds(destFolder.id, [file.name], destFolder.diskType, destFolder.groupId))[0].number;
+            const folder: RecFile = { ...destFolder, id: folderId, name: file.name };
+
+            // listed without the cache, which is keyed by the full path that file does not carry
+            const files = await source.listFolder([file]);
+            if (!files.stat) {
+                throw new Error(files.msg);
+            }
+            for (const f of files.data) {
+                await this.streamCopy(f, folder, source);
+            }
+            return;
+        }
+
+        // empty files cannot be uploaded
+        if (file.size === 0) {
+            console.error(`[WARN] ${file.name}: empty file will be ignored`);
+            return;
+        }
+
+        const url = (await source.api.getDownloadUrlByIds([file.id], file.groupId))[file.id];
+        await this.api.uploadSourceByFolderId(destFolder.id, {
+            name: file.name,
+            key: `rec:${file.groupId ?? ""}:${file.id}`,
+            size: file.size,
+            mtimeMs: parseRecTime(file.lastModified) || 0,
+            read: (start, length) => downloadRange(url, start, length)
+        }, destFolder.diskType, destFolder.groupId);
+    }
+
+    // sources in the same disk and group are removed in one request
+    public async rm(src: string | string[]): Promise<RetType<void>> {
+        const srcs = typeof src === "string" ? [src] : src;
+        const paths = await this.calcPaths(srcs);
+        const files: RecFile[] = [];
+        for (let i = 0; i < srcs.length; i++) {
+            const path = paths[i];
+            // if path is null or path is root, then rm failed
+            if (!path || path.length === 0) return {
+                stat: false,
+                msg: `${srcs[i]} not found`
+            };
+            const file = path[path.length - 1];
+            // if path is a root folder or groupRoot, then rm failed
+            if (file.id === "0" || file === groupRoot) return {
+                stat: false,
+                msg: `cannot remove root folder or group root folder`
+            };
+            files.push(file);
+        }
+
+        if (files.length === 0) return {
             stat: false,
-            msg: `cannot recycle root folder or group root folder`
+            msg: `no source to remove`
         };
-        // if path in recycle, then recycle failed
-        if (path[0].diskType === "recycle") return {
-            stat: false,
-            msg: `cannot recycle a file in recycle`
+
+        try {
+            for (const batch of groupByDisk(files)) {
+                await this.api.operationByIdType("delete", batch.map(f => ({ id: f.id, type: f.type })), undefined, batch[0].diskType, batch[0].groupId);
+            }
+        } finally {
+            this.clearCache((paths as RecFile[][]).map(p => p.slice(0, -1)));
+        }
+
+        return {
+            stat: true,
+            data: undefined
         };
-        // if groupId is not empty, then recycle failed
-        if (file.groupId) return {
+    }
+
+    // sources in the same disk are recycled in one request
+    public async recycle(src: string | string[]): Promise<RetType<void>> {
+        const srcs = typeof src === "string" ? [src] : src;
+        const paths = await this.calcPaths(srcs);
+        const files: RecFile[] = [];
+        for (let i = 0; i < srcs.length; i++) {
+            const path = paths[i];
+            // if path is null or path is root, then recycle failed
+            if (!path || path.length === 0) return {
+                stat: false,
+                msg: `${srcs[i]} not found`
+            };
+            const file = path[path.length - 1];
+            // if path is a root folder or groupRoot, then recycle failed
+            if (file.id === "0" || file === groupRoot) return {
+                stat: false,
+                msg: `cannot recycle root folder or group root folder`
+            };
+            // if path in recycle, then recycle failed
+            if (path[0].diskType === "recycle") return {
+                stat: false,
+                msg: `cannot recycle a file in recycle`
+            };
+            // if groupId is not empty, then recycle failed
+            if (file.groupId) return {
+                stat: false,
+                msg: `cannot recycle a file in group`
+            };
+            files.push(file);
+        }
+
+        if (files.length === 0) return {
             stat: false,
-            msg: `cannot recycle a file in group`
+            msg: `no source to recycle`
         };
 
-
-        await this.api.operationByIdType("recycle", [{ id: file.id, type: file.type }], undefined, file.diskType, file.groupId);
+        try {
+            for (const batch of groupByDisk(files)) {
+                await this.api.operationByIdType("recycle", batch.map(f => ({ id: f.id, type: f.type })), undefined, batch[0].diskType, batch[0].groupId);
+            }
+        } finally {
+            this.clearCache([...(paths as RecFile[][]).map(p => p.slice(0, -1)), [recycleRoot]]);
+        }
 
         return {
             stat: true,
@@ -463,6 +962,14 @@ class RecFileSystem {
         };
     }
 
+    // remove a file that is replaced or no longer wanted, like mv does for its sources
+    // files in groups cannot be recycled, so they are deleted
+    private async discard(src: string): Promise<RetType<void>> {
+        const srcPath = await this.calcPath(src);
+        const file = srcPath?.[srcPath.length - 1];
+        return file?.groupId ? this.rm(src) : this.recycle(src);
+    }
+
     // dest should be a folder, if file, return false
     public async restore(src: string, dest: string): Promise<RetType<void>> {
         const srcPath = await this.calcPath(src);
@@ -509,7 +1016,11 @@ class RecFileSystem {
             msg: `cannot restore between different groups`
         };
 
-        await this.api.operationByIdType("restore", [{ id: srcFile.id, type: srcFile.type }], destFolder.id, destFolder.diskType, destFolder.groupId);
+        try {
+            await this.api.operationByIdType("restore", [{ id: srcFile.id, type: srcFile.type }], destFolder.id, destFolder.diskType, destFolder.groupId);
+        } finally {
+            this.clearCache([srcPath.slice(0, -1), destPath]);
+        }
 
         return {
             stat: true,
@@ -537,10 +1048,14 @@ class RecFileSystem {
             msg: `file name is empty`
         };
 
-        if (file.type == "file")
-            await this.api.renameByIdExt({ id: file.id, type: file.type }, name, file.groupId);
-        else if (file.type == "folder")
-            await this.api.renameByIdType({ id: file.id, type: file.type }, name, file.groupId);
+        try {
+            if (file.type == "file")
+                await this.api.renameByIdExt({ id: file.id, type: file.type }, name, file.groupId);
+            else if (file.type == "folder")
+                await this.api.renameByIdType({ id: file.id, type: file.type }, name, file.groupId);
+        } finally {
+            this.clearCache([path.slice(0, -1)]);
+        }
 
         return {
             stat: true,
@@ -577,7 +1092,11 @@ class RecFileSystem {
             msg: `cannot make folder in group root folder`
         };
 
-        await this.api.mkdirByFolderIds(file.id, [name], file.diskType, file.groupId);
+        try {
+            await this.api.mkdirByFolderIds(file.id, [name], file.diskType, file.groupId);
+        } finally {
+            this.clearCache([cwd]);
+        }
 
         return {
             stat: true,
@@ -637,6 +1156,7 @@ class RecFileSystem {
         });
         // wait for all mv to finish and catch result/error
         const results = await Promise.allSettled(moves);
+        this.clearCache([parentPath]);
         // if any mv failed, then return the error
         const errors = results.filter(r => r.status === "rejected").map(r => r.reason);
         if (errors.length > 0) {
@@ -664,7 +1184,8 @@ class RecFileSystem {
 
     // dest must be a folder
     // upload src file to dest folder
-    public async upload(src: string, dest: string): Promise<RetType<void>> {
+    // if fingerprint, files are hashed first, so the server can skip files it already has
+    public async upload(src: string, dest: string, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal, fingerprint: boolean = false): Promise<RetType<void>> {
         const path = await this.calcPath(dest);
         // if path is null or path is root, then upload failed
         if (!path || path.length === 0) return {
@@ -716,15 +1237,26 @@ class RecFileSystem {
 
         const isFolder = fs.statSync(src).isDirectory();
 
+        // Check if cancelled before starting upload
+        if (abortSignal?.aborted) {
+            return {
+                stat: false,
+                msg: "Upload was cancelled"
+            };
+        }
+
         // Use MultiWorkerExecutor for both files and folders
         const executor = new MultiWorkerExecutor<UploadWorkerData>({
             workerCount: isFolder ? 4 : 1, // Use multiple workers for folders, single for files
             workerPath: dirname + "/workers/upload-worker.js",
             workerData: { 
                 userAuth: this.api.getUserAuth(),
-                recAuth: this.api.getRecAuth()!
-            }
-            // Note: No abortSignal or pauseSignal support as requested
+                recAuth: this.api.getRecAuth()!,
+                fingerprint
+            },
+            abortSignal,
+            pauseSignal,
+            tokenBroker: this.tokenBroker
         });
 
         // Construct root task
@@ -738,13 +1270,15 @@ class RecFileSystem {
 
         try {
             // Execute the task using the executor
-            console.log(`[INFO] ${src}: uploading via MultiWorkerExecutor`);
-            await executor.execute(task);
+            console.error(`[INFO] ${src}: uploading via MultiWorkerExecutor`);
+            await executor.execute(task, onProgress);
         } catch (e) {
             return {
                 stat: false,
                 msg: String(e)
             };
+        } finally {
+            this.clearCache([path]);
         }
 
         return {
@@ -820,7 +1354,8 @@ class RecFileSystem {
                 recAuth: this.api.getRecAuth()!
             },
             abortSignal,
-            pauseSignal
+            pauseSignal,
+            tokenBroker: this.tokenBroker
         });
 
         // Construct root task
@@ -833,7 +1368,7 @@ class RecFileSystem {
         };
 
         // Execute the task using the executor
-        console.log(`[INFO] ${dest}: downloading via MultiWorkerExecutor`);
+        console.error(`[INFO] ${dest}: downloading via MultiWorkerExecutor`);
         await executor.execute(task, onProgress);
 
         return {
@@ -913,7 +1448,8 @@ class RecFileSystem {
                 panDavAuth: client.getPanDavAuth() 
             },
             abortSignal,
-            pauseSignal
+            pauseSignal,
+            tokenBroker: this.tokenBroker
         });
 
         // Construct root task
@@ -926,7 +1462,7 @@ class RecFileSystem {
         };
 
         // Execute the task using the executor
-        console.log(`[INFO] ${dest}: transferring via MultiWorkerExecutor`);
+        console.error(`[INFO] ${dest}: transferring via MultiWorkerExecutor`);
         await executor.execute(task, onProgress);
 
         return {
@@ -935,6 +1471,313 @@ class RecFileSystem {
         };
     }
 
+    // dest must be a folder
+    // transfer src file in webdav to dest folder, the reverse of transfer
+    public async transferFromPan(src: string, dest: string, client: PanDavClient, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal): Promise<RetType<void>> {
+        const path = await this.calcPath(dest);
+        // if path is null or path is root, then transfer failed
+        if (!path || path.length === 0) return {
+            stat: false,
+            msg: `${dest} not found`
+        };
+        const folder = path[path.length - 1];
+        // if path is groupRoot, then transfer failed
+        if (folder === groupRoot) return {
+            stat: false,
+            msg: `cannot upload to group root folder`
+        };
+        // if path is in recycle, then transfer failed
+        if (path[0].diskType === "recycle") return {
+            stat: false,
+            msg: `cannot upload to recycle`
+        };
+        // if path is not a folder, then transfer failed
+        if (folder.type !== "folder") return {
+            stat: false,
+            msg: `${dest} is not a folder`
+        };
+        // if has no upload permission, then transfer failed
+        if (!folder.role.upload) return {
+            stat: false,
+            msg: `no upload permission`
+        };
+
+        // remove trailing slash
+        src = src.replace(/\/$/, "");
+
+        let isFolder: boolean;
+        try {
+            // if src is empty (root folder), then transfer failed
+            if (src.trim().length === 0) {
+                throw new Error(`cannot transfer root folder`);
+            }
+            // if src does not exist, then transfer failed
+            if (!await client.exists(src)) {
+                throw new Error(`${src} not found in webdav`);
+            }
+
+            const stat = await client.stat(src);
+            isFolder = ("data" in stat ? stat.data.type : stat.type) === "directory";
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            }
+        }
+
+        // Check if cancelled before starting transfer
+        if (abortSignal?.aborted) {
+            return {
+                stat: false,
+                msg: "Transfer was cancelled"
+            };
+        }
+
+        // Use MultiWorkerExecutor for both files and folders
+        const executor = new MultiWorkerExecutor<PanDavTransferWorkerData>({
+            workerCount: isFolder ? 4 : 1, // Use multiple workers for folders, single for files
+            workerPath: dirname + "/workers/pan-transfer-worker.js",
+            workerData: {
+                userAuth: this.api.getUserAuth(),
+                recAuth: this.api.getRecAuth()!,
+                panDavAuth: client.getPanDavAuth()
+            },
+            abortSignal,
+            pauseSignal,
+            tokenBroker: this.tokenBroker
+        });
+
+        // Construct root task, path is the path in webdav
+        const task: WorkerTask = {
+            id: folder.id,
+            diskType: folder.diskType,
+            groupId: folder.groupId,
+            type: isFolder ? "folder" : "file",
+            path: src
+        };
+
+        try {
+            // Execute the task using the executor
+            console.error(`[INFO] ${src}: transferring via MultiWorkerExecutor`);
+            await executor.execute(task, onProgress);
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        } finally {
+            this.clearCache([path]);
+        }
+
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
+
+    // dest must be a folder
+    // incremental transfer, every transferred file is recorded in a manifest,
+    // so a rerun skips finished files, retries failed ones and reports source changes
+    public async migrate(src: string, dest: string, client: PanDavClient, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal): Promise<RetType<MigrationReport>> {
+        const recPath = await this.calcPath(src);
+        // if path is null or path is root, then migrate failed
+        if (!recPath || recPath.length === 0) return {
+            stat: false,
+            msg: `${src} not found`
+        };
+        const file = recPath[recPath.length - 1];
+        // if path is groupRoot, then migrate failed
+        if (file === groupRoot) return {
+            stat: false,
+            msg: `cannot download group root folder`
+        };
+        // if path is in recycle, then migrate failed
+        if (recPath[0].diskType === "recycle") return {
+            stat: false,
+            msg: `cannot download a file in recycle`
+        };
+        // if has no download permission, then migrate failed
+        if (!file.role.download) return {
+            stat: false,
+            msg: `no download permission`
+        };
+
+        // remove trailing slash
+        dest = dest.replace(/\/$/, "");
+
+        try {
+            // if dest is empty (root folder), then migrate failed
+            if (dest.trim().length === 0) {
+                throw new Error(`cannot transfer to root folder`);
+            }
+            // if dest does not exist, then migrate failed
+            if (!await client.exists(dest)) {
+                throw new Error(`${dest} not found in webdav`);
+            }
+            // if dest is not a directory, then migrate failed
+            const stat = await client.stat(dest);
+            if ("data" in stat ? stat.data.type !== "directory" : stat.type !== "directory") {
+                throw new Error(`${dest} is not a folder`);
+            }
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+
+        // manifest is identified by the account, the source and the destination
+        const key = `${this.account ?? "default"}:${file.diskType}:${file.groupId ?? ""}:${file.id}:${dest}`;
+        const manifest: migrationManifest.MigrationManifest = migrationManifest.getMigrationManifest(key) ?? {
+            src: "/" + recPath.map(f => f.name).join("/"),
+            dest,
+            updatedAt: "",
+            entries: {}
+        };
+
+        // collect all source files, the destination path follows the source tree
+        type SourceFile = { id: string, diskType: DiskType, size: number, lastModified: string, dest: string };
+        const sources: SourceFile[] = [];
+        try {
+            if (file.type === "file") {
+                sources.push({ id: file.id, diskType: file.diskType, size: file.size, lastModified: file.lastModified, dest: dest + "/" + file.name });
+            } else {
+                const walk = async (id: string, diskType: DiskType, prefix: string): Promise<void> => {
+                    const files = (await this.api.listById(id, diskType, file.groupId)).datas;
+                    for (const f of files) {
+                        const name = f.type === "folder" ? f.name : f.file_ext ? f.name + "." + f.file_ext : f.name;
+                        if (f.type === "folder") {
+                            await walk(f.number, f.disk_type, prefix + "/" + name);
+                        } else {
+                            sources.push({ id: f.number, diskType: f.disk_type, size: Number(f.bytes), lastModified: f.last_update_date, dest: prefix + "/" + name });
+                        }
+                    }
+                };
+                await walk(file.id, file.diskType, dest + "/" + file.name);
+            }
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+
+        // compare the source with the manifest
+        const report: MigrationReport = { added: [], modified: [], removed: [], retried: [], skipped: 0, transferred: 0, failed: [] };
+        const todo: SourceFile[] = [];
+        // stale copies must be removed, transfer skips files of the same size
+        const stale: string[] = [];
+        const sourceIds = new Set(sources.map(f => f.id));
+        for (const f of sources) {
+            const entry = manifest.entries[f.id];
+            if (!entry) {
+                report.added.push(f.dest);
+            } else if (entry.size !== f.size || entry.lastModified !== f.lastModified) {
+                report.modified.push(f.dest);
+                stale.push(entry.dest);
+            } else if (entry.dest !== f.dest) {
+                // moved or renamed in the source
+                report.modified.push(f.dest);
+            } else if (entry.status === "failed") {
+                report.retried.push(f.dest);
+            } else {
+                report.skipped++;
+                continue;
+            }
+            todo.push(f);
+        }
+        for (const id of Object.keys(manifest.entries)) {
+            if (sourceIds.has(id)) continue;
+            report.removed.push(manifest.entries[id].dest);
+            delete manifest.entries[id];
+        }
+
+        // Check if cancelled before starting migration
+        if (abortSignal?.aborted) {
+            return {
+                stat: false,
+                msg: "Transfer was cancelled"
+            };
+        }
+
+        // save the manifest at most every few seconds, it may be large
+        let dirty = false;
+        const save = () => {
+            if (!dirty) return;
+            manifest.updatedAt = new Date().toISOString();
+            migrationManifest.setMigrationManifest(key, manifest);
+            dirty = false;
+        };
+        const saveInterval = setInterval(save, 5000);
+
+        try {
+            for (const p of stale) {
+                if (await client.exists(p)) await client.deleteFile(p);
+            }
+            // folders are created before files are queued
+            const folders = [...new Set(todo.map(f => path.posix.dirname(f.dest)))].sort();
+            for (const folder of folders) {
+                if (!await client.exists(folder)) await client.createDirectory(folder, { recursive: true });
+            }
+
+            const byDest = new Map(todo.map(f => [f.dest, f]));
+            const executor = new MultiWorkerExecutor<TransferWorkerData>({
+                workerCount: 4,
+                workerPath: dirname + "/workers/transfer-worker.js",
+                workerData: { 
+                    userAuth: this.api.getUserAuth(), 
+                    recAuth: this.api.getRecAuth()!, 
+                    panDavAuth: client.getPanDavAuth(),
+                    keepGoing: true
+                },
+                abortSignal,
+                pauseSignal,
+                tokenBroker: this.tokenBroker,
+                keepGoing: true,
+                onTaskDone: (task, error) => {
+                    const f = byDest.get(task.path);
+                    if (!f) return;
+                    manifest.entries[f.id] = {
+                        id: f.id,
+                        size: f.size,
+                        lastModified: f.lastModified,
+                        dest: f.dest,
+                        status: error ? "failed" : "done",
+                        error,
+                        transferredAt: new Date().toISOString()
+                    };
+                    dirty = true;
+                    if (error) report.failed.push({ path: f.dest, error });
+                    else report.transferred++;
+                }
+            });
+
+            console.error(`[INFO] ${dest}: migrating ${todo.length} files via MultiWorkerExecutor, ${report.skipped} already migrated`);
+            await executor.execute(todo.map(f => ({
+                id: f.id,
+                diskType: f.diskType,
+                groupId: file.groupId,
+                type: "file",
+                path: f.dest
+            })), onProgress);
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        } finally {
+            clearInterval(saveInterval);
+            // removed entries are saved even if nothing was transferred
+            dirty = true;
+            save();
+        }
+
+        return {
+            stat: true,
+            data: report
+        };
+    }
+
     // save from group to cloud
     public async save(src: string, dest: string): Promise<RetType<void>> {
         const srcPath = await this.calcPath(src);
@@ -976,7 +1819,11 @@ class RecFileSystem {
             msg: `${dest} is not a folder`
         };
 
-        await this.api.saveToCloud([{ id: srcFile.id, type: srcFile.type }], destFolder.id, srcFile.groupId!);
+        try {
+            await this.api.saveToCloud([{ id: srcFile.id, type: srcFile.type }], destFolder.id, srcFile.groupId!);
+        } finally {
+            this.clearCache([destPath]);
+        }
 
         return {
             stat: true,
@@ -1062,10 +1909,10 @@ class RecFileSystem {
             const file = path[path.length - 1];
             if (path.length === 0 || file.type === "folder") {
                 // if path is root or path is a folder
-                const files = await this.lsc(path);
+                const files = await this.lscCached(path);
                 // if lsc failed, return 0
                 if (!files.stat) {
-                    console.log(`[WARN] lsc failed: ${files.msg}`);
+                    console.error(`[WARN] lsc failed: ${files.msg}`);
                     return 0;
                 }
                 // concurrent requests
@@ -1086,6 +1933,789 @@ class RecFileSystem {
         };
     }
 
+    // get full metadata of a file or folder
+    public async stat(src: string): Promise<RetType<RecFileStat>> {
+        const path = await this.calcPath(src);
+        // if path is null or path is root, then stat failed
+        if (!path || path.length === 0) return {
+            stat: false,
+            msg: `${src} not found`
+        };
+
+        const file = path[path.length - 1];
+        // root folders and groups are not real folders
+        if (file.id === "0") return {
+            stat: false,
+            msg: `${src} has no metadata`
+        };
+
+        try {
+            const info = await this.api.getFileInfo({ id: file.id, type: file.type }, file.groupId);
+            // last update date of a folder comes with its timezone
+            const modified = typeof info.last_update_date === "string" ? info.last_update_date : info.last_update_date.date;
+            return {
+                stat: true,
+                data: {
+                    id: file.id,
+                    path: "/" + path.map(f => f.name).join("/"),
+                    name: file.name,
+                    type: file.type,
+                    diskType: info.disk_type,
+                    groupId: file.groupId,
+                    role: file.role.label,
+                    download: file.role.download,
+                    upload: file.role.upload,
+                    extension: info.file_ext,
+                    bytes: Number(info.bytes),
+                    creator: info.creater_user_real_name,
+                    created: info.created_date,
+                    modified: modified,
+                    hash: info.hash ?? "",
+                    info: info
+                }
+            };
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+    }
+
+    // get the file or folder at src without requesting its metadata
+    // the root is an unnamed folder
+    public async entry(src: string): Promise<RetType<RecFile>> {
+        const path = await this.calcPath(src);
+        if (!path) return {
+            stat: false,
+            msg: `${src} not found`
+        };
+        return {
+            stat: true,
+            data: path.length === 0 ? { ...cloudRoot, name: "" } : path[path.length - 1]
+        };
+    }
+
+    // open a stream reading the content of the file src
+    public async readStream(src: string): Promise<RetType<Readable>> {
+        const path = await this.calcPath(src);
+        if (!path || path.length === 0) return {
+            stat: false,
+            msg: `${src} not found`
+        };
+        const file = path[path.length - 1];
+        if (file.type !== "file") return {
+            stat: false,
+            msg: `${src} is not a file`
+        };
+        if (!file.role.download) return {
+            stat: false,
+            msg: `no download permission`
+        };
+
+        try {
+            const url = (await this.api.getDownloadUrlByIds([file.id], file.groupId))[file.id];
+            return {
+                stat: true,
+                data: new PausableDownloadStream(url)
+            };
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+    }
+
+    // upload size bytes of stream as the file dest, the folder of dest must exist
+    // the stream cannot seek, so an interrupted upload is not resumed and no upload journal is kept for it
+    public async writeStream(dest: string, stream: Readable, size: number): Promise<RetType<void>> {
+        const [dir, name] = this.splicePath(dest);
+        if (!name || name === "." || name === "..") return {
+            stat: false,
+            msg: `${dest} is not a file name`
+        };
+        const path = await this.calcPath(dir || (dest.trim().startsWith("/") ? "/" : "."));
+        if (!path || path.length === 0) return {
+            stat: false,
+            msg: `${dir || "/"} is not a folder`
+        };
+        const folder = path[path.length - 1];
+        if (folder.type !== "folder") return {
+            stat: false,
+            msg: `${dir} is not a folder`
+        };
+        if (folder === groupRoot || path[0].diskType === "recycle") return {
+            stat: false,
+            msg: `cannot upload to group root folder or recycle`
+        };
+        if (!folder.role.upload) return {
+            stat: false,
+            msg: `no upload permission`
+        };
+
+        try {
+            // empty files cannot be uploaded
+            if (size === 0) {
+                console.error(`[WARN] ${name}: empty file will be ignored`);
+                return {
+                    stat: true,
+                    data: undefined
+                };
+            }
+            await this.api.uploadSourceByFolderId(folder.id, {
+                name: name,
+                key: `stream:${folder.groupId ?? ""}:${folder.id}/${name}`,
+                size: size,
+                mtimeMs: 0,
+                read: createSequentialReader(stream),
+                resumable: false
+            }, folder.diskType, folder.groupId);
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        } finally {
+            stream.destroy();
+            this.clearCache([path]);
+        }
+
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
+
+    // find files and folders under src matching all conditions of filter
+    // files in a group folder are searched by the server if possible, otherwise the tree is walked
+    public async find(src: string, filter: FindFilter): Promise<RetType<FoundRecFile[]>> {
+        const path = await this.calcPath(src);
+        // if path is null, then find failed
+        if (!path) return {
+            stat: false,
+            msg: `${src} not found`
+        };
+        // if path is a file, then find failed
+        if (path.length > 0 && path[path.length - 1].type !== "folder") return {
+            stat: false,
+            msg: `${src} is not a folder`
+        };
+
+        const matches = createFindMatcher(filter);
+        const toEntry = (f: RecFile): FindEntry => ({
+            name: f.name,
+            size: f.size,
+            type: f.type,
+            lastModified: f.lastModified,
+            creator: f.creator
+        });
+
+        try {
+            const found = await this.searchGroup(path, filter);
+            if (found) return {
+                stat: true,
+                data: found.filter(f => matches(toEntry(f))).sort((a, b) => a.path.localeCompare(b.path))
+            };
+
+            const data: FoundRecFile[] = [];
+            await walkParallel(path, async (folder) => {
+                const files = await this.lsc(folder);
+                // if lsc failed, skip the folder
+                if (!files.stat) {
+                    console.error(`[WARN] lsc failed: ${files.msg}`);
+                    return [];
+                }
+                return files.data.map(f => [...folder, f]);
+            }, (p) => p[p.length - 1].type === "folder", (p) => {
+                const file = p[p.length - 1];
+                if (matches(toEntry(file))) {
+                    data.push({ ...file, path: "/" + p.map(f => f.name).join("/") });
+                }
+            });
+
+            return {
+                stat: true,
+                data: data.sort((a, b) => a.path.localeCompare(b.path))
+            };
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+    }
+
+    // search files by name with the server, only possible under a first level folder of a group
+    // returns undefined if the server search cannot answer the query, then the tree has to be walked
+    private async searchGroup(path: RecFile[], filter: FindFilter): Promise<FoundRecFile[] | undefined> {
+        // server search only finds files
+        if (!filter.name || filter.type === "folder") return undefined;
+        if (path.length < 3 || path[0] !== groupRoot) return undefined;
+        const keyword = globKeyword(filter.name);
+        if (!keyword) return undefined;
+
+        const group = path[1];
+        const firstLevel = path[2];
+        const root = path[path.length - 1];
+        const res = await this.api.findFileFromFirstLevelFolder(keyword, firstLevel.id, group.groupId!);
+        // results are truncated
+        if (res.total > res.datas.length) return undefined;
+
+        // names of folders between root and the found files
+        const names = new Map<string, string>();
+        const found: FoundRecFile[] = [];
+        for (const f of res.datas) {
+            if (f.type !== "file") continue;
+            // ids of all ancestors from the first level folder down to the parent
+            const ancestors = f.parent_path_number.split(/[^0-9A-Za-z]+/).filter(id => id);
+            if (ancestors[ancestors.length - 1] !== f.parent_number) ancestors.push(f.parent_number);
+            // unknown ancestor format, fall back to walking the tree
+            if (!ancestors.includes(firstLevel.id)) return undefined;
+            // not under root
+            const index = ancestors.indexOf(root.id);
+            if (index === -1) continue;
+
+            const folders: string[] = [];
+            for (const id of ancestors.slice(index + 1)) {
+                if (!names.has(id)) {
+                    const info = await this.api.getFileInfo({ id, type: "folder" }, group.groupId);
+                    names.set(id, info.name);
+                }
+                folders.push(names.get(id)!);
+            }
+
+            const name = f.file_ext ? f.name + "." + f.file_ext : f.name;
+            found.push({
+                id: f.number,
+                diskType: f.disk_type,
+                role: root.role, // extend role
+                groupId: group.groupId, // extend groupId
+                name: name,
+                size: Number(f.bytes),
+                type: f.type,
+                creator: f.creater_user_real_name,
+                lastModified: f.last_update_date,
+                path: "/" + [...path.map(p => p.name), ...folders, name].join("/")
+            });
+        }
+        return found;
+    }
+
+    // collect size and hash of all files under file, folders are walked recursively
+    private async digest(file: RecFile): Promise<RecFileDigest[]> {
+        if (file.type === "file") {
+            const info = await this.api.getFileInfo({ id: file.id, type: "file" }, file.groupId);
+            return [{ path: file.name, size: Number(info.bytes), hash: toRecHash(info.hash) }];
+        }
+
+        const digests: RecFileDigest[] = [];
+        const walk = async (id: string, diskType: DiskType, prefix: string): Promise<void> => {
+            const files = (await this.api.listById(id, diskType, file.groupId)).datas;
+            for (const f of files) {
+                const name = f.type === "folder" ? f.name : f.file_ext ? f.name + "." + f.file_ext : f.name;
+                if (f.type === "folder") {
+                    await walk(f.number, f.disk_type, prefix + "/" + name);
+                } else {
+                    digests.push({ path: prefix + "/" + name, size: Number(f.bytes), hash: toRecHash(f.hash) });
+                }
+            }
+        };
+        await walk(file.id, file.diskType, file.name);
+        return digests;
+    }
+
+    // compare a local file with its rec digest, return the reason of mismatch if any
+    private async compareLocalFile(localPath: string, digest: RecFileDigest): Promise<string | undefined> {
+        if (!fs.existsSync(localPath)) return "missing";
+        const size = fs.statSync(localPath).size;
+        if (size !== digest.size) return `size ${size}, expected ${digest.size}`;
+        // local files are hashed by the algorithm of rec, only worth it if rec has a hash
+        if (digest.hash?.algorithm !== "rec") return undefined;
+        return compareHash({ algorithm: "rec", value: await this.api.calcFingerprint(localPath) }, digest.hash);
+    }
+
+    // dest must be the folder src was downloaded to
+    // verify downloaded files by size and hash
+    public async verifyDownload(src: string, dest: string): Promise<RetType<VerifyResult>> {
+        const recPath = await this.calcPath(src);
+        // if path is null or path is root, then verify failed
+        if (!recPath || recPath.length === 0) return {
+            stat: false,
+            msg: `${src} not found`
+        };
+        const file = recPath[recPath.length - 1];
+        const parent = "/" + recPath.slice(0, -1).map(f => f.name).join("/");
+
+        try {
+            const digests = await this.digest(file);
+            const mismatches: VerifyMismatch[] = [];
+            for (const d of digests) {
+                const localPath = path.join(dest, d.path);
+                const reason = await this.compareLocalFile(localPath, d);
+                if (reason) mismatches.push({ src: path.posix.join(parent, d.path), dest: localPath, reason });
+            }
+            return {
+                stat: true,
+                data: { checked: digests.length, mismatches }
+            };
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+    }
+
+    // dest must be the folder src was uploaded to
+    // verify uploaded files by size and hash, empty files are ignored as upload does
+    public async verifyUpload(src: string, dest: string): Promise<RetType<VerifyResult>> {
+        const destPath = await this.calcPath(dest);
+        // if path is null or path is root, then verify failed
+        if (!destPath || destPath.length === 0) return {
+            stat: false,
+            msg: `${dest} not found`
+        };
+        const parent = "/" + destPath.map(f => f.name).join("/");
+
+        // remove trailing slash
+        src = src.replace(/\/$/, "");
+        const name = path.basename(src);
+
+        try {
+            if (!fs.existsSync(src)) {
+                throw new Error(`${src} not found`);
+            }
+
+            // collect local files, path relative to the parent of src
+            const localFiles: string[] = [];
+            const walk = (p: string, relative: string) => {
+                const stats = fs.statSync(p);
+                if (stats.isDirectory()) {
+                    for (const f of fs.readdirSync(p)) walk(p + "/" + f, relative + "/" + f);
+                } else if (stats.size > 0) {
+                    localFiles.push(relative);
+                }
+            };
+            walk(src, name);
+
+            // uploaded root may be missing as a whole
+            const files = await this.lsc(destPath);
+            if (!files.stat) {
+                throw new Error(`cannot list files in ${dest}`);
+            }
+            const uploaded = files.data.find(f => f.name === name);
+            const digests = new Map((uploaded ? await this.digest(uploaded) : []).map(d => [d.path, d]));
+
+            const mismatches: VerifyMismatch[] = [];
+            for (const relative of localFiles) {
+                const localPath = path.join(path.dirname(src), relative);
+                const remotePath = path.posix.join(parent, relative);
+                const digest = digests.get(relative);
+                if (!digest) {
+                    mismatches.push({ src: localPath, dest: remotePath, reason: "missing" });
+                    continue;
+                }
+                const reason = await this.compareLocalFile(localPath, digest);
+                if (reason) mismatches.push({ src: localPath, dest: remotePath, reason });
+            }
+            return {
+                stat: true,
+                data: { checked: localFiles.length, mismatches }
+            };
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+    }
+
+    // dest must be the webdav folder src was transferred to
+    // verify transferred files by size, the etag of webdav is not a hash of the content, so it never matches the hash of rec
+    public async verifyTransfer(src: string, dest: string, client: PanDavClient): Promise<RetType<VerifyResult>> {
+        const recPath = await this.calcPath(src);
+        // if path is null or path is root, then verify failed
+        if (!recPath || recPath.length === 0) return {
+            stat: false,
+            msg: `${src} not found`
+        };
+        const file = recPath[recPath.length - 1];
+        const parent = "/" + recPath.slice(0, -1).map(f => f.name).join("/");
+
+        // remove trailing slash
+        dest = dest.replace(/\/$/, "");
+
+        try {
+            const digests = await this.digest(file);
+
+            // list each destination folder once
+            const listings = new Map<string, Map<string, FileStat>>();
+            const getListing = async (folder: string): Promise<Map<string, FileStat>> => {
+                let listing = listings.get(folder);
+                if (listing) return listing;
+                listing = new Map();
+                if (await client.exists(folder)) {
+                    const contents = await client.getDirectoryContents(folder);
+                    for (const f of "data" in contents ? contents.data : contents) listing.set(f.basename, f);
+                }
+                listings.set(folder, listing);
+                return listing;
+            };
+
+            const mismatches: VerifyMismatch[] = [];
+            for (const d of digests) {
+                const davPath = dest + "/" + d.path;
+                const stat = (await getListing(path.posix.dirname(davPath))).get(path.posix.basename(davPath));
+                let reason: string | undefined;
+                if (!stat || stat.type !== "file") {
+                    reason = "missing";
+                } else if (stat.size !== d.size) {
+                    reason = `size ${stat.size}, expected ${d.size}`;
+                } else if (stat.etag) {
+                    reason = compareHash({ algorithm: "etag", value: stat.etag.replace(/"/g, "") }, d.hash);
+                }
+                if (reason) mismatches.push({ src: path.posix.join(parent, d.path), dest: davPath, reason });
+            }
+            return {
+                stat: true,
+                data: { checked: digests.length, mismatches }
+            };
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+    }
+
+    // resolve the rec folder of a sync and check it can be synced in mode
+    private async calcSyncFolder(remote: string, mode: SyncMode): Promise<RetType<RecFile[]>> {
+        const remotePath = await this.calcPath(remote);
+        // if path is null or path is root, then sync failed
+        if (!remotePath || remotePath.length === 0) return {
+            stat: false,
+            msg: `${remote} not found`
+        };
+        const folder = remotePath[remotePath.length - 1];
+        // if path is groupRoot, then sync failed
+        if (folder === groupRoot) return {
+            stat: false,
+            msg: `cannot sync group root folder`
+        };
+        // if path is in recycle, then sync failed
+        if (remotePath[0].diskType === "recycle") return {
+            stat: false,
+            msg: `cannot sync a folder in recycle`
+        };
+        // if path is not a folder, then sync failed
+        if (folder.type !== "folder") return {
+            stat: false,
+            msg: `${remote} is not a folder`
+        };
+        // check permission of the side to be changed
+        if (mode !== "pull" && !folder.role.upload) return {
+            stat: false,
+            msg: `no upload permission`
+        };
+        if (mode !== "push" && !folder.role.download) return {
+            stat: false,
+            msg: `no download permission`
+        };
+        return {
+            stat: true,
+            data: remotePath
+        };
+    }
+
+    // the sync state of a pair of folders, the folder is identified by id, as a path may be another folder later
+    private getSyncStateKey(local: string, folder: RecFile): string {
+        return `${local}:${folder.diskType}:${folder.groupId ?? ""}:${folder.id}`;
+    }
+
+    // collect entries of both sides of a sync, folders are entries too, paths are relative to the synced folders
+    private async collectSyncEntries(local: string, folder: RecFile): Promise<[Map<string, SyncEntry>, Map<string, SyncEntry>]> {
+        if (!fs.existsSync(local) || !fs.statSync(local).isDirectory()) {
+            throw new Error(`${local} is not a folder`);
+        }
+
+        const localEntries = new Map<string, SyncEntry>();
+        const walkLocal = (p: string, relative: string) => {
+            for (const name of fs.readdirSync(p)) {
+                const stats = fs.statSync(p + "/" + name);
+                const entryPath = relative ? relative + "/" + name : name;
+                localEntries.set(entryPath, {
+                    type: stats.isDirectory() ? "folder" : "file",
+                    size: stats.isDirectory() ? 0 : stats.size,
+                    mtimeMs: stats.mtimeMs
+                });
+                if (stats.isDirectory()) walkLocal(p + "/" + name, entryPath);
+            }
+        };
+        walkLocal(local, "");
+
+        const remoteEntries = new Map<string, SyncEntry>();
+        const walkRemote = async (id: string, diskType: DiskType, relative: string): Promise<void> => {
+            const files = (await this.api.listById(id, diskType, folder.groupId)).datas;
+            for (const f of files) {
+                const name = f.type === "folder" ? f.name : f.file_ext ? f.name + "." + f.file_ext : f.name;
+                const entryPath = relative ? relative + "/" + name : name;
+                remoteEntries.set(entryPath, {
+                    type: f.type,
+                    size: f.type === "folder" ? 0 : Number(f.bytes),
+                    // NaN if rec returns an unknown date format, then only size is compared
+                    mtimeMs: parseRecTime(f.last_update_date)
+                });
+                if (f.type === "folder") await walkRemote(f.number, f.disk_type, entryPath);
+            }
+        };
+        await walkRemote(folder.id, folder.diskType, "");
+        return [localEntries, remoteEntries];
+    }
+
+    // plan a sync between local folder and rec folder by name, size and modification time
+    // push makes remote like local, pull makes local like remote, mirror copies newer files both ways
+    // if deleteExtra, files only on the target side are deleted, in mirror files deleted on one side
+    // since the last sync are deleted on the other side, see recordSync
+    public async planSync(local: string, remote: string, mode: SyncMode, deleteExtra: boolean = false): Promise<RetType<SyncAction[]>> {
+        const remotePath = await this.calcSyncFolder(remote, mode);
+        if (!remotePath.stat) return remotePath;
+        const folder = remotePath.data[remotePath.data.length - 1];
+
+        // remove trailing slash
+        local = local.replace(/\/$/, "");
+        const remoteRoot = "/" + remotePath.data.map(f => f.name).join("/");
+
+        try {
+            const [localEntries, remoteEntries] = await this.collectSyncEntries(local, folder);
+            // without a state of the last sync, every path on one side only is new
+            const synced = new Set(mode === "mirror" && deleteExtra ? syncState.getSyncState(this.getSyncStateKey(local, folder))?.paths : []);
+
+            const plan: SyncAction[] = [];
+            const action = (act: SyncAction["action"], entryPath: string, entry: SyncEntry, reason: SyncAction["reason"]) => plan.push({
+                action: act,
+                type: entry.type,
+                path: entryPath,
+                localPath: path.join(local, entryPath),
+                remotePath: path.posix.join(remoteRoot, entryPath),
+                size: entry.size,
+                reason
+            });
+            // entries under a folder which is copied or deleted as a whole are not planned again
+            const covered: string[] = [];
+            const isCovered = (entryPath: string) => covered.some(c => entryPath.startsWith(c + "/"));
+            const newer = (a: number, b: number) => !isNaN(a) && !isNaN(b) && a - b > syncTimeTolerance;
+            // deleted on the other side since the last sync, a folder only if nothing in it is new
+            const deleted = (entries: Map<string, SyncEntry>, entryPath: string) => [...entries.keys()]
+                .filter(p => p === entryPath || p.startsWith(entryPath + "/"))
+                .every(p => synced.has(p));
+
+            const paths = [...new Set([...localEntries.keys(), ...remoteEntries.keys()])].sort();
+            for (const entryPath of paths) {
+                if (isCovered(entryPath)) continue;
+                const l = localEntries.get(entryPath);
+                const r = remoteEntries.get(entryPath);
+
+                if (l && r) {
+                    if (l.type !== r.type) {
+                        action("skip", entryPath, l, "conflict");
+                        covered.push(entryPath);
+                    } else if (l.type === "file") {
+                        // a copy made by the last sync is always newer than its source,
+                        // so only the source side being newer means a change
+                        const sizeDiffers = l.size !== r.size;
+                        const reason = sizeDiffers ? "size" : "newer";
+                        if (mode === "push" && (sizeDiffers || newer(l.mtimeMs, r.mtimeMs))) {
+                            action("upload", entryPath, l, reason);
+                        } else if (mode === "pull" && (sizeDiffers || newer(r.mtimeMs, l.mtimeMs))) {
+                            action("download", entryPath, r, reason);
+                        } else if (mode === "mirror" && sizeDiffers) {
+                            // the newer side wins in mirror, the source side is unknown for equal sizes
+                            if (newer(r.mtimeMs, l.mtimeMs)) action("download", entryPath, r, reason);
+                            else action("upload", entryPath, l, reason);
+                        }
+                    }
+                } else if (l) {
+                    if (mode === "mirror" && deleteExtra && deleted(localEntries, entryPath)) {
+                        action("delete-local", entryPath, l, "deleted");
+                    // empty files are ignored by upload
+                    } else if (mode !== "pull" && (l.type === "folder" || l.size > 0)) {
+                        action("upload", entryPath, l, "new");
+                    } else if (mode === "pull" && deleteExtra) {
+                        action("delete-local", entryPath, l, "extra");
+                    }
+                    covered.push(entryPath);
+                } else if (r) {
+                    if (mode === "mirror" && deleteExtra && deleted(remoteEntries, entryPath)) {
+                        action("delete-remote", entryPath, r, "deleted");
+                    } else if (mode !== "push") {
+                        action("download", entryPath, r, "new");
+                    } else if (deleteExtra) {
+                        action("delete-remote", entryPath, r, "extra");
+                    }
+                    covered.push(entryPath);
+                }
+            }
+
+            return {
+                stat: true,
+                data: plan
+            };
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+    }
+
+    // remember the paths on both sides after a mirror sync, so that the next one can tell deleted paths from new ones
+    public async recordSync(local: string, remote: string): Promise<RetType<void>> {
+        const remotePath = await this.calcSyncFolder(remote, "mirror");
+        if (!remotePath.stat) return remotePath;
+        const folder = remotePath.data[remotePath.data.length - 1];
+        local = local.replace(/\/$/, "");
+
+        try {
+            const [localEntries, remoteEntries] = await this.collectSyncEntries(local, folder);
+            syncState.setSyncState(this.getSyncStateKey(local, folder), {
+                local: local,
+                remote: "/" + remotePath.data.map(f => f.name).join("/"),
+                syncedAt: new Date().toISOString(),
+                paths: [...localEntries.keys()].filter(p => remoteEntries.get(p)?.type === localEntries.get(p)!.type)
+            });
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+        return {
+            stat: true,
+            data: undefined
+        };
+    }
+
+    // execute a plan made by planSync, failed actions don't stop the others
+    public async sync(plan: SyncAction[], onProgress?: (done: number, total: number, action: SyncAction) => void): Promise<RetType<SyncResult>> {
+        const result: SyncResult = { done: 0, failed: [] };
+        const actions = plan.filter(a => a.action !== "skip");
+
+        for (const a of actions) {
+            onProgress?.(result.done + result.failed.length, actions.length, a);
+            let ret: RetType<void>;
+            try {
+                switch (a.action) {
+                    case "upload": {
+                        // replace the existing copy, it goes to recycle unless it is in a group
+                        if (a.reason !== "new") {
+                            const discard = await this.discard(a.remotePath);
+                            if (!discard.stat) {
+                                ret = discard;
+                                break;
+                            }
+                        }
+                        ret = await this.upload(a.localPath, path.posix.dirname(a.remotePath));
+                        break;
+                    }
+                    case "download": {
+                        if (a.reason !== "new") fs.rmSync(a.localPath, { recursive: true, force: true });
+                        ret = await this.download(a.remotePath, path.dirname(a.localPath));
+                        break;
+                    }
+                    case "delete-remote": {
+                        ret = await this.discard(a.remotePath);
+                        break;
+                    }
+                    case "delete-local": {
+                        fs.rmSync(a.localPath, { recursive: true, force: true });
+                        ret = { stat: true, data: undefined };
+                        break;
+                    }
+                    default: {
+                        ret = { stat: true, data: undefined };
+                    }
+                }
+            } catch (e) {
+                ret = { stat: false, msg: String(e) };
+            }
+
+            if (ret.stat) {
+                result.done++;
+            } else {
+                result.failed.push({ path: a.path, msg: ret.msg });
+            }
+        }
+
+        return {
+            stat: true,
+            data: result
+        };
+    }
+
+    // verify the files transferred from src to dest, see verifyUpload, verifyDownload and verifyTransfer
+    // if retransfer, mismatched files are transferred once more and checked again
+    public async verify(kind: "upload" | "download" | "transfer", src: string, dest: string, retransfer: boolean, client?: PanDavClient): Promise<RetType<VerifyResult>> {
+        const check = (): Promise<RetType<VerifyResult>> => {
+            switch (kind) {
+                case "upload": return this.verifyUpload(src, dest);
+                case "download": return this.verifyDownload(src, dest);
+                case "transfer": return client ? this.verifyTransfer(src, dest, client) : Promise.resolve({
+                    stat: false,
+                    msg: "webdav client is required for transfer"
+                });
+            }
+        };
+
+        const verify = await check();
+        if (!verify.stat || !retransfer || verify.data.mismatches.length === 0) return verify;
+
+        console.error(`[INFO] ${kind}: transferring ${verify.data.mismatches.length} mismatched files again`);
+        for (const mismatch of verify.data.mismatches) {
+            const ret = await this.retransfer(kind, mismatch, client);
+            if (!ret.stat) {
+                console.error(`[WARN] ${mismatch.src}: ${ret.msg}`);
+            }
+        }
+        return check();
+    }
+
+    // replace the bad copy of a mismatched file found by verify with a fresh one
+    public async retransfer(kind: "upload" | "download" | "transfer", mismatch: VerifyMismatch, client?: PanDavClient): Promise<RetType<void>> {
+        try {
+            switch (kind) {
+                case "upload": {
+                    if (mismatch.reason !== "missing") {
+                        const discard = await this.discard(mismatch.dest);
+                        if (!discard.stat) return discard;
+                    }
+                    return await this.upload(mismatch.src, path.posix.dirname(mismatch.dest));
+                }
+                case "download": {
+                    fs.rmSync(mismatch.dest, { force: true });
+                    fs.mkdirSync(path.dirname(mismatch.dest), { recursive: true });
+                    return await this.download(mismatch.src, path.dirname(mismatch.dest));
+                }
+                case "transfer": {
+                    if (!client) return {
+                        stat: false,
+                        msg: "webdav client is required for transfer"
+                    };
+                    if (await client.exists(mismatch.dest)) {
+                        await client.deleteFile(mismatch.dest);
+                    }
+                    await client.createDirectory(path.posix.dirname(mismatch.dest), { recursive: true });
+                    return await this.transfer(mismatch.src, path.posix.dirname(mismatch.dest), client);
+                }
+            }
+        } catch (e) {
+            return {
+                stat: false,
+                msg: String(e)
+            };
+        }
+    }
+
 }
 
 export default RecFileSystem;
\ No newline at end of file
@@ -0,0 +1,39 @@
+import fs from "fs"
+import crypto from 'crypto';
+import { homedir } from "os";
+
+const dirPath = `${homedir()}/.reccli-ts/fingerprints`;
+
+export type FingerprintEntry = {
+    // local file identity, the fingerprint is stale if the file has changed
+    size: number,
+    mtimeMs: number,
+    // Rec multi-part md5 fingerprint of the file
+    fingerprint: string
+}
+
+function getFileName(filePath: string): string {
+    return crypto.createHash('sha256').update(filePath).digest('hex');
+}
+
+// read cached fingerprint from file "~/.reccli-ts/fingerprints", only if the file is unchanged
+function getFingerprint(filePath: string, size: number, mtimeMs: number): string | undefined {
+    const path = `${dirPath}/${getFileName(filePath)}`;
+    if (!fs.existsSync(path)) return undefined;
+    try {
+        const entry: FingerprintEntry = JSON.parse(fs.readFileSync(path, 'utf8'));
+        if (entry.size !== size || entry.mtimeMs !== mtimeMs) return undefined;
+        return entry.fingerprint;
+    } catch {
+        // a broken entry is treated as no entry
+        return undefined;
+    }
+}
+
+function setFingerprint(filePath: string, entry: FingerprintEntry) {
+    if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
+    const path = `${dirPath}/${getFileName(filePath)}`;
+    fs.writeFileSync(path, JSON.stringify(entry));
+}
+
+export { getFingerprint, setFingerprint }
@@ -0,0 +1,31 @@
+import fs from "fs"
+import crypto from 'crypto';
+import { homedir } from "os";
+import { resolveAccount } from "@services/profile-index.js";
+
+const dirPath = `${homedir()}/.reccli-ts/history`;
+
+// max number of commands kept in the history of an account
+export const historySize = 1000;
+
+// the default account shares the history of the account it points to
+function getFileName(account: string | undefined): string {
+    return crypto.createHash('sha256').update(resolveAccount("rec", account) ?? "default").digest('hex');
+}
+
+// read the history of an account from "~/.reccli-ts/history", the newest command first like readline
+// account is the student ID, undefined for the default account
+function getHistory(account: string | undefined): string[] {
+    const path = `${dirPath}/${getFileName(account)}`;
+    if (!fs.existsSync(path)) return [];
+    // one command per line, the oldest first
+    return fs.readFileSync(path, 'utf8').split("\n").filter(Boolean).reverse().slice(0, historySize);
+}
+
+function setHistory(account: string | undefined, history: string[]) {
+    if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
+    const path = `${dirPath}/${getFileName(account)}`;
+    fs.writeFileSync(path, history.slice(0, historySize).reverse().join("\n") + "\n");
+}
+
+export { getHistory, setHistory }
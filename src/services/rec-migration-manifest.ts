@@ -0,0 +1,53 @@
+import fs from "fs"
+import crypto from 'crypto';
+import { homedir } from "os";
+
+const dirPath = `${homedir()}/.reccli-ts/migrations`;
+
+export type MigrationEntry = {
+    // rec file identity, the entry is stale if the source has changed
+    id: string,
+    size: number,
+    lastModified: string,
+    // webdav path the file was transferred to
+    dest: string,
+    status: "done" | "failed",
+    error?: string,
+    // ISO time of the last attempt
+    transferredAt: string
+}
+
+export type MigrationManifest = {
+    src: string,
+    dest: string,
+    // ISO time of the last run
+    updatedAt: string,
+    // entries keyed by rec id
+    entries: { [id: string]: MigrationEntry }
+}
+
+function getFileName(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// read migration manifest from file "~/.reccli-ts/migrations"
+function getMigrationManifest(key: string): MigrationManifest | undefined {
+    const path = `${dirPath}/${getFileName(key)}`;
+    if (!fs.existsSync(path)) return undefined;
+    try {
+        return JSON.parse(fs.readFileSync(path, 'utf8'));
+    } catch {
+        // a broken manifest is treated as no manifest
+        return undefined;
+    }
+}
+
+function setMigrationManifest(key: string, manifest: MigrationManifest) {
+    if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
+    const path = `${dirPath}/${getFileName(key)}`;
+    // write to a temporary file first, a crash never leaves a half written manifest
+    fs.writeFileSync(path + ".tmp", JSON.stringify(manifest));
+    fs.renameSync(path + ".tmp", path);
+}
+
+export { getMigrationManifest, setMigrationManifest }
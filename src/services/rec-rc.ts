@@ -0,0 +1,13 @@
+import fs from "fs"
+import { homedir } from "os";
+
+// commands run when the interactive shell starts, shared by all accounts
+export const rcPath = `${homedir()}/.reccli-ts/rc`;
+
+// read "~/.reccli-ts/rc", undefined if there is none
+function getRc(): string | undefined {
+    if (!fs.existsSync(rcPath)) return undefined;
+    return fs.readFileSync(rcPath, 'utf8');
+}
+
+export { getRc }
@@ -5,6 +5,7 @@ import TransferManager, { TransferTask } from '@services/transfer-manager.js';
 import { RetType } from '@services/pan-dav-file-system.js';
 import { RecFile } from '@services/rec-file-system.js';
 import { PanDavFile } from '@services/pan-dav-file-system.js';
+import { copyBetween, LocalBackend, moveBetween, PanDavBackend, parseStoragePath, RecBackend, StorageBackend, storageSchemes } from '@services/storage-backend.js';
 
 interface AuthenticatedRequest extends Request {
     session?: SessionData;
@@ -86,6 +87,7 @@ class RecServer {
         this.app.get('/api/rec/groups', this.recGetGroups.bind(this));
         this.app.get('/api/rec/df', this.recGetStorageInfo.bind(this));
         this.app.get('/api/rec/du', this.recGetPathSize.bind(this));
+        this.app.get('/api/rec/stat', this.recGetStat.bind(this));
 
         // PanDav File System operations
         this.app.get('/api/pandav/list', this.panDavListFiles.bind(this));
@@ -107,6 +109,16 @@ class RecServer {
         this.app.get('/api/local/pwd', this.localGetCurrentPath.bind(this));
         this.app.get('/api/local/stat', this.localGetPathInfo.bind(this));
 
+        // Storage backend operations, paths begin with rec:, pan: or local:
+        this.app.get('/api/fs/list', this.fsListFiles.bind(this));
+        this.app.get('/api/fs/stat', this.fsGetStat.bind(this));
+        this.app.get('/api/fs/du', this.fsGetPathSize.bind(this));
+        this.app.post('/api/fs/mkdir', this.fsCreateDirectory.bind(this));
+        this.app.delete('/api/fs/delete', this.fsDeleteFile.bind(this));
+        this.app.post('/api/fs/rename', this.fsRenameFile.bind(this));
+        this.app.post('/api/fs/copy', this.fsCopyFile.bind(this));
+        this.app.post('/api/fs/move', this.fsMoveFile.bind(this));
+
         // Transfer operations
         this.app.post('/api/transfer/create', this.createTransfer.bind(this));
         this.app.post('/api/transfer/:taskId/start', this.startTransfer.bind(this));
@@ -175,6 +187,7 @@ class RecServer {
 
     private async recCopyFile(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
+            // src can be a path or an array of paths, handled in one request
             const { src, dest } = req.body;
             const result = await req.session!.recFileSystem.cp(src, dest);
             this.sendResult(res, result);
@@ -185,6 +198,7 @@ class RecServer {
 
     private async recMoveFile(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
+            // src can be a path or an array of paths, handled in one request
             const { src, dest } = req.body;
             const result = await req.session!.recFileSystem.mv(src, dest);
             this.sendResult(res, result);
@@ -195,7 +209,8 @@ class RecServer {
 
     private async recDeleteFile(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            const path = req.query.path as string;
+            // path can be given more than once, e.g. ?path=a&path=b
+            const path = req.query.path as string | string[];
             const result = await req.session!.recFileSystem.rm(path);
             this.sendResult(res, result);
         } catch (error) {
@@ -244,6 +259,7 @@ class RecServer {
 
     private async recRecycleFile(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
+            // src can be a path or an array of paths, handled in one request
             const { src } = req.body;
             const result = await req.session!.recFileSystem.recycle(src);
             this.sendResult(res, result);
@@ -319,6 +335,16 @@ class RecServer {
         }
     }
 
+    private async recGetStat(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const path = req.query.path as string;
+            const result = await req.session!.recFileSystem.stat(path);
+            this.sendResult(res, result);
+        } catch (error) {
+            res.status(500).json({ error: String(error) });
+        }
+    }
+
     // PanDav File System endpoints
     private async panDavListFiles(req: AuthenticatedRequest, res: Response): Promise<void> {
         if (!this.checkPanDavAvailable(req, res)) return;
@@ -484,11 +510,11 @@ class RecServer {
     // Transfer endpoints
     private createTransfer(req: AuthenticatedRequest, res: Response): void {
         try {
-            const { srcPath, destPath, transferType } = req.body;
+            const { srcPath, destPath, transferType, verify, retransfer } = req.body;
             
             // Validate transferType
-            if (!transferType || !['webdav', 'disk'].includes(transferType)) {
-                res.status(400).json({ error: 'transferType must be either "webdav" or "disk"' });
+            if (!transferType || !['webdav', 'disk', 'upload'].includes(transferType)) {
+                res.status(400).json({ error: 'transferType must be one of "webdav", "disk" or "upload"' });
                 return;
             }
             
@@ -496,7 +522,9 @@ class RecServer {
                 req.session!.id,
                 srcPath,
                 destPath,
-                transferType
+                transferType,
+                !!verify,
+                !!retransfer
             );
             res.json({ taskId });
         } catch (error) {
@@ -716,6 +744,142 @@ class RecServer {
         }
     }
 
+    // Storage backend endpoints
+    // the backend of a path like rec:/a, pan:/a or local:/a and the path in it, undefined once an error is sent
+    private getStorage(req: AuthenticatedRequest, res: Response, path: unknown): [StorageBackend, string] | undefined {
+        const storagePath = typeof path === 'string' ? parseStoragePath(path) : undefined;
+        if (!storagePath) {
+            res.status(400).json({
+                stat: false,
+                msg: `${path}: no backend, begin the path with ${storageSchemes.map(s => s + ':').join(', ')}`
+            });
+            return undefined;
+        }
+        switch (storagePath.scheme) {
+            case 'rec': return [new RecBackend(req.session!.recFileSystem), storagePath.path];
+            case 'pan': {
+                if (!this.checkPanDavAvailable(req, res)) return undefined;
+                return [new PanDavBackend(req.session!.panDavFileSystem!), storagePath.path];
+            }
+            case 'local': return [new LocalBackend(req.session!.localFileSystem), storagePath.path];
+        }
+    }
+
+    private async fsListFiles(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const storage = this.getStorage(req, res, req.query.path);
+            if (!storage) return;
+            const [backend, path] = storage;
+            const result = await backend.ls(path);
+            this.sendResult(res, result);
+        } catch (error) {
+            res.status(500).json({ error: String(error) });
+        }
+    }
+
+    private async fsGetStat(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const storage = this.getStorage(req, res, req.query.path);
+            if (!storage) return;
+            const [backend, path] = storage;
+            const result = await backend.stat(path);
+            this.sendResult(res, result);
+        } catch (error) {
+            res.status(500).json({ error: String(error) });
+        }
+    }
+
+    private async fsGetPathSize(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const storage = this.getStorage(req, res, req.query.path);
+            if (!storage) return;
+            const [backend, path] = storage;
+            const result = await backend.du(path);
+            this.sendResult(res, result);
+        } catch (error) {
+            res.status(500).json({ error: String(error) });
+        }
+    }
+
+    private async fsCreateDirectory(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const storage = this.getStorage(req, res, req.body.path);
+            if (!storage) return;
+            const [backend, path] = storage;
+            const result = await backend.mkdir(path);
+            this.sendResult(res, result);
+        } catch (error) {
+            res.status(500).json({ error: String(error) });
+        }
+    }
+
+    private async fsDeleteFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const storage = this.getStorage(req, res, req.query.path);
+            if (!storage) return;
+            const [backend, path] = storage;
+            const result = await backend.rm(path);
+            this.sendResult(res, result);
+        } catch (error) {
+            res.status(500).json({ error: String(error) });
+        }
+    }
+
+    private async fsRenameFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const { src, name } = req.body;
+            const storage = this.getStorage(req, res, src);
+            if (!storage) return;
+            const [backend, path] = storage;
+            const result = await backend.rename(path, name);
+            this.sendResult(res, result);
+        } catch (error) {
+            res.status(500).json({ error: String(error) });
+        }
+    }
+
+    private fsCopyFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+        return this.fsTransfer(req, res, 'cp');
+    }
+
+    private fsMoveFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+        return this.fsTransfer(req, res, 'mv');
+    }
+
+    // copy or move src into the folder dest, streamed between backends when they differ
+    private async fsTransfer(req: AuthenticatedRequest, res: Response, operation: 'cp' | 'mv'): Promise<void> {
+        try {
+            const { src, dest } = req.body;
+            const srcStorage = this.getStorage(req, res, src);
+            if (!srcStorage) return;
+            const destStorage = this.getStorage(req, res, dest);
+            if (!destStorage) return;
+            const [srcBackend, srcPath] = srcStorage;
+            const [destBackend, destPath] = destStorage;
+            if (srcBackend.scheme === destBackend.scheme) {
+                const result = await (operation === 'cp' ? srcBackend.cp(srcPath, destPath) : srcBackend.mv(srcPath, destPath));
+                this.sendResult(res, result);
+                return;
+            }
+            // a client that goes away cancels the copy
+            const controller = new AbortController();
+            const abort = () => {
+                if (!res.writableEnded) controller.abort();
+            };
+            res.on('close', abort);
+            try {
+                const result = await (operation === 'cp' ? copyBetween : moveBetween)(srcBackend, srcPath, destBackend, destPath, {
+                    abortSignal: controller.signal
+                });
+                if (!controller.signal.aborted) this.sendResult(res, result);
+            } finally {
+                res.off('close', abort);
+            }
+        } catch (error) {
+            res.status(500).json({ error: String(error) });
+        }
+    }
+
     public start(): Promise<void> {
         return new Promise((resolve, reject) => {
             this.app.listen(this.port, '127.0.0.1', (error?) => {
@@ -0,0 +1,42 @@
+import fs from "fs"
+import crypto from 'crypto';
+import { homedir } from "os";
+
+const dirPath = `${homedir()}/.reccli-ts/sync`;
+
+// paths found on both sides after the last mirror sync of a pair of folders
+// a path on one side only is new if it is not here, and deleted on the other side if it is
+export type SyncState = {
+    local: string,
+    remote: string,
+    // ISO time of the last sync
+    syncedAt: string,
+    // paths relative to the synced folders
+    paths: string[]
+}
+
+function getFileName(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// read sync state from file "~/.reccli-ts/sync"
+function getSyncState(key: string): SyncState | undefined {
+    const path = `${dirPath}/${getFileName(key)}`;
+    if (!fs.existsSync(path)) return undefined;
+    try {
+        return JSON.parse(fs.readFileSync(path, 'utf8'));
+    } catch {
+        // a broken state is treated as the first sync, nothing is deleted
+        return undefined;
+    }
+}
+
+function setSyncState(key: string, state: SyncState) {
+    if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
+    const path = `${dirPath}/${getFileName(key)}`;
+    // write to a temporary file first, a crash never leaves a half written state
+    fs.writeFileSync(path + ".tmp", JSON.stringify(state));
+    fs.renameSync(path + ".tmp", path);
+}
+
+export { getSyncState, setSyncState }
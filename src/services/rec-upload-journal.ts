@@ -0,0 +1,46 @@
+import fs from "fs"
+import crypto from 'crypto';
+import { homedir } from "os";
+
+const dirPath = `${homedir()}/.reccli-ts/uploads`;
+
+export type UploadJournal = {
+    // local file identity, the journal is stale if the file has changed
+    size: number,
+    mtimeMs: number,
+    // upload session the chunks were acknowledged in
+    uploadToken: string,
+    // indexes of chunks acknowledged by the server
+    uploadedChunks: number[]
+}
+
+function getFileName(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// read upload journal from file "~/.reccli-ts/uploads"
+function getUploadJournal(key: string): UploadJournal | undefined {
+    const path = `${dirPath}/${getFileName(key)}`;
+    if (!fs.existsSync(path)) return undefined;
+    try {
+        return JSON.parse(fs.readFileSync(path, 'utf8'));
+    } catch {
+        // a broken journal is treated as no journal
+        return undefined;
+    }
+}
+
+function setUploadJournal(key: string, journal: UploadJournal) {
+    if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath, { recursive: true });
+    const path = `${dirPath}/${getFileName(key)}`;
+    fs.writeFileSync(path, JSON.stringify(journal));
+}
+
+function deleteUploadJournal(key: string): boolean {
+    const path = `${dirPath}/${getFileName(key)}`;
+    if (!fs.existsSync(path)) return false;
+    fs.unlinkSync(path);
+    return true;
+}
+
+export { getUploadJournal, setUploadJournal, deleteUploadJournal }
@@ -2,6 +2,8 @@ import fs from "fs"
 import crypto from 'crypto';
 import { homedir } from "os";
 import { UserAuth } from "@services/rec-api.js"
+import { resolveAccount } from "@services/profile-index.js"
+import { readCredential, writeCredential, deleteCredential, migrateCredential } from "@services/credential-store.js"
 
 const dirPath = `${homedir()}/.reccli-ts`;
 const defaultPath = dirPath + "/default";
@@ -10,27 +12,39 @@ function getFileName(account: string): string {
     return crypto.createHash('sha256').update(account).digest('hex');
 }
 
-// read user auth from file "~/.reccli-ts"
+// no account is the default account, which is the saved account it points to if set
+function getPath(account: string | undefined): string {
+    account = resolveAccount("rec", account);
+    return account ? `${dirPath}/${getFileName(account)}` : defaultPath;
+}
+
+// read user auth from file "~/.reccli-ts", encrypted, see credential-store
 function getUserAuth(account: string | undefined): UserAuth | undefined {
-    const path = account ? `${dirPath}/${getFileName(account)}` : defaultPath;
-    if (!fs.existsSync(path)) return undefined;
-    const userAuth = JSON.parse(Buffer.from(fs.readFileSync(path, 'utf8'), 'base64').toString());
-    return userAuth;
+    return readCredential<UserAuth>(getPath(account));
+}
+
+// whether the credentials of the account are saved, without decrypting them
+function hasUserAuth(account: string | undefined): boolean {
+    return fs.existsSync(getPath(account));
 }
 
 function setUserAuth(account: string | undefined, userAuth: UserAuth) {
-    if (!fs.existsSync(dirPath)) fs.mkdirSync(dirPath);
-    const path = account ? `${dirPath}/${getFileName(account)}` : defaultPath;
     // don't save information that is not necessary
     userAuth.gid = ""; userAuth.name = ""; userAuth.username = "";
-    fs.writeFileSync(path, Buffer.from(JSON.stringify(userAuth)).toString('base64'));
+    writeCredential(getPath(account), userAuth);
 }
 
+// the file is overwritten before it is removed
 function deleteUserAuth(account: string | undefined): boolean {
-    const path = account ? `${dirPath}/${getFileName(account)}` : defaultPath;
-    if (!fs.existsSync(path)) return false;
-    fs.unlinkSync(path);
-    return true;
+    return deleteCredential(getPath(account));
+}
+
+// encrypt the files written by older versions, return the number of files encrypted
+function migrateUserAuth(): number {
+    if (!fs.existsSync(dirPath)) return 0;
+    return fs.readdirSync(dirPath)
+        .filter(name => name === "default" || /^[0-9a-f]{64}$/.test(name))
+        .filter(name => migrateCredential(`${dirPath}/${name}`)).length;
 }
 
-export { getUserAuth, setUserAuth, deleteUserAuth }
\ No newline at end of file
+export { getUserAuth, hasUserAuth, setUserAuth, deleteUserAuth, migrateUserAuth }
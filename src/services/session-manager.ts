@@ -64,7 +64,7 @@ class SessionManager {
             await Promise.all(loginPromises);
 
             // Create file systems
-            const recFileSystem = new RecFileSystem(recApi);
+            const recFileSystem = new RecFileSystem(recApi, undefined, loginData.recAccount);
             if (panDavClient) {
                 panDavFileSystem = new PanDavFileSystem(panDavClient);
             }
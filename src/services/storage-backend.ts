@@ -0,0 +1,262 @@
+import { pipeline, Readable, Transform } from "stream";
+import RecFileSystem, { RetType } from "@services/rec-file-system.js";
+import PanDavFileSystem, { PanDavFile } from "@services/pan-dav-file-system.js";
+import LocalFileSystem, { LocalFile } from "@services/local-file-system.js";
+import { PauseSignal } from "@utils/pause-signal.js";
+import { PauseGateStream, ProgressCallback, ProgressRateMeter } from "@utils/stream-utils.js";
+
+export type { RetType };
+
+// "rec" for Rec, "pan" for Pan WebDav, "local" for the local disk
+export type StorageScheme = "rec" | "pan" | "local";
+
+export const storageSchemes: StorageScheme[] = ["rec", "pan", "local"];
+
+// a file or folder in any backend
+export type StorageFile = {
+    name: string,
+    type: "file" | "folder",
+    size: number,
+    modified: string
+}
+
+// a path in a backend, e.g. "rec:/a" or "local:a" relative to the current folder
+export type StoragePath = {
+    scheme: StorageScheme,
+    path: string
+}
+
+// progress, cancel and pause of copyBetween and moveBetween
+export type CopyOptions = {
+    // bytes copied of all files so far
+    onProgress?: ProgressCallback,
+    abortSignal?: AbortSignal,
+    // files are held back while paused
+    pauseSignal?: PauseSignal
+}
+
+// file operations every backend supports, paths are in the backend and relative to its current folder
+// cp and mv take the destination folder, the source keeps its name
+export interface StorageBackend {
+    readonly scheme: StorageScheme;
+    ls(path: string): Promise<RetType<StorageFile[]>>;
+    stat(path: string): Promise<RetType<StorageFile>>;
+    mkdir(path: string): Promise<RetType<void>>;
+    rm(path: string): Promise<RetType<void>>;
+    mv(src: string, dest: string): Promise<RetType<void>>;
+    cp(src: string, dest: string): Promise<RetType<void>>;
+    rename(path: string, name: string): Promise<RetType<void>>;
+    // the caller reads the stream to the end or destroys it
+    readStream(path: string): Promise<RetType<Readable>>;
+    // write size bytes of stream as the file path, the folder must exist
+    writeStream(path: string, stream: Readable, size: number): Promise<RetType<void>>;
+    du(path: string): Promise<RetType<number>>;
+}
+
+export class RecBackend implements StorageBackend {
+    readonly scheme = "rec";
+
+    constructor(private rfs: RecFileSystem) { }
+
+    public async ls(path: string): Promise<RetType<StorageFile[]>> {
+        const ls = await this.rfs.ls(path);
+        if (!ls.stat) return ls;
+        return {
+            stat: true,
+            data: ls.data.map(f => ({ name: f.name, type: f.type, size: f.size, modified: f.lastModified }))
+        };
+    }
+
+    public async stat(path: string): Promise<RetType<StorageFile>> {
+        const entry = await this.rfs.entry(path);
+        if (!entry.stat) return entry;
+        const f = entry.data;
+        return {
+            stat: true,
+            data: { name: f.name, type: f.type, size: f.size, modified: f.lastModified }
+        };
+    }
+
+    public mkdir(path: string) { return this.rfs.mkdir(path); }
+    public rm(path: string) { return this.rfs.rm(path); }
+    public mv(src: string, dest: string) { return this.rfs.mv(src, dest); }
+    public cp(src: string, dest: string) { return this.rfs.cp(src, dest); }
+    public rename(path: string, name: string) { return this.rfs.rename(path, name); }
+    public readStream(path: string) { return this.rfs.readStream(path); }
+    public writeStream(path: string, stream: Readable, size: number) { return this.rfs.writeStream(path, stream, size); }
+    public du(path: string) { return this.rfs.du(path); }
+}
+
+function convertPanDavFile(f: PanDavFile): StorageFile {
+    return { name: f.basename, type: f.type, size: f.size, modified: f.lastmod };
+}
+
+export class PanDavBackend implements StorageBackend {
+    readonly scheme = "pan";
+
+    constructor(private pfs: PanDavFileSystem) { }
+
+    public async ls(path: string): Promise<RetType<StorageFile[]>> {
+        const ls = await this.pfs.ls(path);
+        if (!ls.stat) return ls;
+        return {
+            stat: true,
+            data: ls.data.map(convertPanDavFile)
+        };
+    }
+
+    public async stat(path: string): Promise<RetType<StorageFile>> {
+        const stat = await this.pfs.stat(path);
+        if (!stat.stat) return stat;
+        return {
+            stat: true,
+            data: convertPanDavFile(stat.data)
+        };
+    }
+
+    public mkdir(path: string) { return this.pfs.mkdir(path); }
+    public rm(path: string) { return this.pfs.rm(path); }
+    public mv(src: string, dest: string) { return this.pfs.mv(src, dest); }
+    public cp(src: string, dest: string) { return this.pfs.cp(src, dest); }
+    public rename(path: string, name: string) { return this.pfs.rename(path, name); }
+    public readStream(path: string) { return this.pfs.readStream(path); }
+    public writeStream(path: string, stream: Readable, size: number) { return this.pfs.writeStream(path, stream, size); }
+    public du(path: string) { return this.pfs.du(path); }
+}
+
+function convertLocalFile(f: LocalFile): StorageFile {
+    return { name: f.name, type: f.type === "directory" ? "folder" : "file", size: f.size, modified: f.modifiedAt };
+}
+
+export class LocalBackend implements StorageBackend {
+    readonly scheme = "local";
+
+    constructor(private lfs: LocalFileSystem) { }
+
+    public async ls(path: string): Promise<RetType<StorageFile[]>> {
+        const ls = await this.lfs.ls(path);
+        if (!ls.stat) return ls;
+        return {
+            stat: true,
+            data: ls.data.map(convertLocalFile)
+        };
+    }
+
+    public async stat(path: string): Promise<RetType<StorageFile>> {
+        const entry = await this.lfs.entry(path);
+        if (!entry.stat) return entry;
+        return {
+            stat: true,
+            data: convertLocalFile(entry.data)
+        };
+    }
+
+    public mkdir(path: string) { return this.lfs.mkdir(path); }
+    public rm(path: string) { return this.lfs.rm(path); }
+    public mv(src: string, dest: string) { return this.lfs.mv(src, dest); }
+    public cp(src: string, dest: string) { return this.lfs.cp(src, dest); }
+    public rename(path: string, name: string) { return this.lfs.rename(path, name); }
+    public readStream(path: string) { return this.lfs.readStream(path); }
+    public writeStream(path: string, stream: Readable, size: number) { return this.lfs.writeStream(path, stream, size); }
+    public du(path: string) { return this.lfs.du(path); }
+}
+
+// split "rec:/a", "pan:/a" or "local:/a" into the backend and the path in it
+// undefined if the path has no known scheme
+export function parseStoragePath(path: string): StoragePath | undefined {
+    const match = path.match(/^([a-z]+):(.*)$/s);
+    if (!match || !storageSchemes.includes(match[1] as StorageScheme)) return undefined;
+    return {
+        scheme: match[1] as StorageScheme,
+        path: match[2] || "."
+    };
+}
+
+function joinPath(folder: string, name: string): string {
+    return folder.endsWith("/") ? folder + name : folder + "/" + name;
+}
+
+// copy a file or folder into destFolder of another backend by streaming it, nothing is stored in between
+// a folder of the same name in destFolder is reused
+export async function copyBetween(src: StorageBackend, srcPath: string, dest: StorageBackend, destFolder: string, options: CopyOptions = {}): Promise<RetType<void>> {
+    const stat = await src.stat(srcPath);
+    if (!stat.stat) return stat;
+    const destFolderStat = await dest.stat(destFolder);
+    if (!destFolderStat.stat) return destFolderStat;
+    if (destFolderStat.data.type !== "folder") return {
+        stat: false,
+        msg: `${destFolder} is not a folder`
+    };
+    // the root of a backend has no name
+    if (!stat.data.name) return {
+        stat: false,
+        msg: `cannot copy root folder`
+    };
+    const meter = new ProgressRateMeter(options.onProgress);
+    const copy = await copyEntry(src, srcPath, stat.data, dest, joinPath(destFolder, stat.data.name), options, meter);
+    if (copy.stat) meter.finish();
+    else meter.stop();
+    return copy;
+}
+
+async function copyEntry(src: StorageBackend, srcPath: string, file: StorageFile, dest: StorageBackend, destPath: string, options: CopyOptions, meter: ProgressRateMeter): Promise<RetType<void>> {
+    const cancelled = { stat: false, msg: "copy was cancelled" } as const;
+    if (options.abortSignal?.aborted) return cancelled;
+
+    if (file.type === "file") {
+        const stream = await src.readStream(srcPath);
+        if (!stream.stat) return stream;
+        // the bytes are counted as they are read by dest
+        const counter = new Transform({
+            transform(chunk, _, callback) {
+                meter.add(chunk.length);
+                callback(null, chunk);
+            }
+        });
+        const data = pipeline(stream.data, new PauseGateStream(options.pauseSignal), counter, () => { });
+        // a destroyed stream fails the write of any backend
+        const abort = () => data.destroy(new Error("copy was cancelled"));
+        options.abortSignal?.addEventListener("abort", abort);
+        let write: RetType<void> | undefined;
+        try {
+            write = await dest.writeStream(destPath, data, file.size);
+            if (options.abortSignal?.aborted) return cancelled;
+            if (!write.stat) return {
+                stat: false,
+                msg: `${srcPath}: ${write.msg}`
+            };
+            return write;
+        } finally {
+            options.abortSignal?.removeEventListener("abort", abort);
+            // dest may fail before reading the stream, the pipeline then closes the source
+            if (!write?.stat || options.abortSignal?.aborted) data.destroy();
+        }
+    }
+
+    const existing = await dest.stat(destPath);
+    if (!existing.stat) {
+        const mkdir = await dest.mkdir(destPath);
+        if (!mkdir.stat) return mkdir;
+    } else if (existing.data.type !== "folder") return {
+        stat: false,
+        msg: `${destPath} is not a folder`
+    };
+
+    const ls = await src.ls(srcPath);
+    if (!ls.stat) return ls;
+    for (const f of ls.data) {
+        const copy = await copyEntry(src, joinPath(srcPath, f.name), f, dest, joinPath(destPath, f.name), options, meter);
+        if (!copy.stat) return copy;
+    }
+    return {
+        stat: true,
+        data: undefined
+    };
+}
+
+// move a file or folder into destFolder of another backend, the source is removed once it is copied
+export async function moveBetween(src: StorageBackend, srcPath: string, dest: StorageBackend, destFolder: string, options: CopyOptions = {}): Promise<RetType<void>> {
+    const copy = await copyBetween(src, srcPath, dest, destFolder, options);
+    if (!copy.stat) return copy;
+    return src.rm(srcPath);
+}
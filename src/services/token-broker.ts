@@ -0,0 +1,64 @@
+import RecAPI, { UserAuth } from "@services/rec-api.js";
+
+// refresh this long before the token expires, earlier than the requests of the workers would, see RecAPI
+const refreshAhead = 5 * 60 * 1000;
+// wait before trying again after a failed refresh
+const retryDelay = 60 * 1000;
+// longest delay of setTimeout
+const maxDelay = 2 ** 31 - 1;
+
+type Subscriber = (userAuth: UserAuth) => void;
+
+// keeps the tokens of one account fresh while workers are running
+// tokens are only refreshed here, saved by the refreshedCallback of the api and pushed to the workers,
+// a worker whose tokens are rejected or about to expire asks for new ones by request
+export class TokenBroker {
+    private subscribers = new Set<Subscriber>();
+    private timer?: NodeJS.Timeout;
+
+    constructor(private api: RecAPI) {
+        api.onRefreshed((userAuth) => {
+            this.subscribers.forEach(subscriber => subscriber(userAuth));
+            this.schedule();
+        });
+    }
+
+    // get the new tokens until the returned function is called, the refresh is scheduled while anyone subscribes
+    public subscribe(subscriber: Subscriber): () => void {
+        this.subscribers.add(subscriber);
+        this.schedule();
+        return () => {
+            this.subscribers.delete(subscriber);
+            if (this.subscribers.size === 0) this.schedule();
+        };
+    }
+
+    // new tokens for a worker holding authToken, refreshed unless they have been refreshed since the worker got them
+    // concurrent requests of the workers share one refresh, see RecAPI.refresh
+    public async request(authToken: string): Promise<UserAuth> {
+        if (authToken === this.api.getUserAuth()?.authToken) await this.api.refresh();
+        return this.api.getUserAuth();
+    }
+
+    private schedule(delay?: number): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        const expires = this.api.getUserAuth()?.authTokenExpires;
+        // without the expiry time, tokens are only refreshed on a 401
+        if (this.subscribers.size === 0 || expires === undefined) return;
+        delay ??= Math.max(expires - refreshAhead - Date.now(), 0);
+        this.timer = setTimeout(() => this.refresh(), Math.min(delay, maxDelay));
+        // a pending refresh doesn't keep the process alive
+        this.timer.unref();
+    }
+
+    private async refresh(): Promise<void> {
+        try {
+            // the subscribers get the tokens and the next refresh is scheduled by onRefreshed
+            await this.api.refresh();
+        } catch (e) {
+            console.error(`[WARN] failed to refresh token: ${e instanceof Error ? e.message : e}`);
+            this.schedule(retryDelay);
+        }
+    }
+}
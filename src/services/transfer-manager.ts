@@ -1,7 +1,8 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import RecFileSystem from '@services/rec-file-system.js';
+import RecFileSystem, { VerifyMismatch } from '@services/rec-file-system.js';
 import PanDavFileSystem from '@services/pan-dav-file-system.js';
+import LocalFileSystem from '@services/local-file-system.js';
 import { PauseSignal } from '@utils/pause-signal.js';
 
 // AbortController for cancelling transfers
@@ -16,7 +17,7 @@ export interface TransferTask {
     sessionId: string;
     srcPath: string;
     destPath: string;
-    transferType: 'webdav' | 'disk';
+    transferType: 'webdav' | 'disk' | 'upload';
     status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
     progress: number; // 0-1000
     totalSize: number;
@@ -26,6 +27,13 @@ export interface TransferTask {
     completedAt?: Date;
     error?: string;
     createdAt: Date;
+    // Verify files after transfer, and transfer mismatched files once more if retransfer
+    verify?: boolean;
+    retransfer?: boolean;
+    verification?: {
+        checked: number;
+        mismatches: VerifyMismatch[];
+    };
     // For speed smoothing
     speedHistory?: number[];
     lastProgressUpdate?: Date;
@@ -44,12 +52,16 @@ class TransferManager extends EventEmitter {
     private runningTasks: Set<string> = new Set();
     private transferControllers: Map<string, TransferController> = new Map();
     private readonly MAX_CONCURRENT_TRANSFERS = 8;
+    // Upload sources live on the local disk of the server
+    private localFileSystem = new LocalFileSystem();
 
     public createTransferTask(
         sessionId: string,
         srcPath: string,
         destPath: string,
-        transferType: 'webdav' | 'disk'
+        transferType: 'webdav' | 'disk' | 'upload',
+        verify: boolean = false,
+        retransfer: boolean = false
     ): string {
         const taskId = uuidv4();
         const task: TransferTask = {
@@ -58,6 +70,8 @@ class TransferManager extends EventEmitter {
             srcPath,
             destPath,
             transferType,
+            verify,
+            retransfer,
             status: 'pending',
             progress: 0,
             totalSize: 0,
@@ -280,7 +294,9 @@ class TransferManager extends EventEmitter {
         // Get the source file info using a direct method instead of ls
         // We need to access the private calcPath method through a workaround
         // Let's check if the source path exists by using the du method first
-        const duResult = await recFileSystem.du(task.srcPath);
+        const duResult = task.transferType === 'upload'
+            ? await this.localFileSystem.du(task.srcPath)
+            : await recFileSystem.du(task.srcPath);
         if (!duResult.stat) {
             throw new Error(`Source path not found: ${task.srcPath}`);
         }
@@ -401,6 +417,15 @@ class TransferManager extends EventEmitter {
                 abortSignal,
                 pauseSignal
             );
+        } else if (task.transferType === 'upload') {
+            // Use RecFileSystem's upload method with progress callback, abort signal and pause signal
+            transferResult = await recFileSystem.upload(
+                task.srcPath,
+                task.destPath,
+                progressCallback,
+                abortSignal,
+                pauseSignal
+            );
         } else {
             throw new Error(`Unsupported transfer type: ${task.transferType}`);
         }
@@ -414,15 +439,39 @@ class TransferManager extends EventEmitter {
             throw new Error('Transfer was cancelled');
         }
 
+        // Verify transferred files if requested
+        if (task.verify) {
+            await this.verifyTransfer(task, recFileSystem, panDavFileSystem);
+        }
+
         // Ensure final progress is 1000
         task.transferredSize = task.totalSize;
         task.progress = 1000;
         this.emit('taskProgress', task);
     }
 
+    private async verifyTransfer(
+        task: TransferTask,
+        recFileSystem: RecFileSystem,
+        panDavFileSystem: PanDavFileSystem | undefined
+    ): Promise<void> {
+        const kind = task.transferType === 'disk' ? 'download' : task.transferType === 'webdav' ? 'transfer' : 'upload';
+        const verify = await recFileSystem.verify(kind, task.srcPath, task.destPath, !!task.retransfer, panDavFileSystem?.getClient());
+        if (!verify.stat) {
+            throw new Error(`Verification failed: ${verify.msg}`);
+        }
+
+        task.verification = verify.data;
+        if (verify.data.mismatches.length > 0) {
+            throw new Error(`Verification failed: ${verify.data.mismatches.length} of ${verify.data.checked} files mismatched`);
+        }
+    }
+
     private async calculateTotalSize(task: TransferTask, recFileSystem: RecFileSystem): Promise<void> {
         try {
-            const du = await recFileSystem.du(task.srcPath);
+            const du = task.transferType === 'upload'
+                ? await this.localFileSystem.du(task.srcPath)
+                : await recFileSystem.du(task.srcPath);
             // if failed to get size, set to 0
             if (!du.stat) {
                 console.warn(`Failed to calculate size for ${task.srcPath}: ${du.msg}`);
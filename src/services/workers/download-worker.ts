@@ -18,7 +18,7 @@ class DownloadWorker extends WorkerBase {
         super({ enableSignals: true });
         
         const { userAuth, recAuth } = data;
-        this.api = new RecAPI(userAuth, undefined, recAuth);
+        this.api = this.createRecAPI(userAuth, recAuth);
     }
 
     // Handle folder task processing
@@ -27,11 +27,11 @@ class DownloadWorker extends WorkerBase {
 
         // if directory already exists, skip creation
         if (fs.existsSync(path)) {
-            console.log(`[INFO] ${path}: directory already exists, skipping...`);
+            console.error(`[INFO] ${path}: directory already exists, skipping...`);
         } else {
-            console.log(`[INFO] ${path}: creating directory (attempt ${retryCount + 1}/${maxRetries})`);
+            console.error(`[INFO] ${path}: creating directory (attempt ${retryCount + 1}/${maxRetries})`);
             fs.mkdirSync(path, { recursive: true });
-            console.log(`[INFO] ${path}: directory created`);
+            console.error(`[INFO] ${path}: directory created`);
         }
 
         // construct tasks
@@ -77,11 +77,11 @@ class DownloadWorker extends WorkerBase {
                 const expectedSize = info.bytes;
 
                 // log size check
-                console.log(`[INFO] ${path}: exists with size ${currentSize}, expected ${expectedSize}`);
+                console.error(`[INFO] ${path}: exists with size ${currentSize}, expected ${expectedSize}`);
 
                 // if size matches, skip download
                 if (currentSize === expectedSize) {
-                    console.log(`[INFO] ${path}: file already downloaded completely, skipping...`);
+                    console.error(`[INFO] ${path}: file already downloaded completely, skipping...`);
                     parentPort!.postMessage({
                         type: "progress",
                         index: msgIndex,
@@ -93,11 +93,11 @@ class DownloadWorker extends WorkerBase {
                 }
 
                 // if partial file exists, remove it for clean restart
-                console.log(`[INFO] ${path}: partial file detected, removing for clean restart`);
+                console.error(`[INFO] ${path}: partial file detected, removing for clean restart`);
                 fs.unlinkSync(path);
             } while (false);
 
-            console.log(`[INFO] ${path}: downloading (attempt ${retryCount + 1}/${maxRetries})`);
+            console.error(`[INFO] ${path}: downloading (attempt ${retryCount + 1}/${maxRetries})`);
             // Download file with pause/abort support
             await downloadFile(url, path, (transferred, rate) => {
                 parentPort!.postMessage({
@@ -108,7 +108,7 @@ class DownloadWorker extends WorkerBase {
                     rate
                 });
             }, this.abortSignal, this.pauseSignal);
-            console.log(`[INFO] ${path}: download completed`);
+            console.error(`[INFO] ${path}: download completed`);
         } while (false);
 
         // return empty tasks
@@ -0,0 +1,120 @@
+import { parentPort, workerData } from "worker_threads";
+import fs from "fs";
+import { downloadFromWebDav } from "@utils/downloader.js";
+import { createPanDavClient, PanDavAuth, PanDavClient } from "@services/pan-dav-api.js";
+import { WorkerBase, WorkerTask } from "@utils/worker-utils.js";
+
+export type PanDavDownloadWorkerData = {
+    // serializable pan dav auth for constructing PanDavClient
+    panDavAuth: PanDavAuth
+}
+
+// task.id is the path in webdav, task.path is the path in local file system
+class PanDavDownloadWorker extends WorkerBase {
+    private client: PanDavClient;
+
+    constructor(data: PanDavDownloadWorkerData) {
+        // Enable signals for download worker (supports pause/resume/abort)
+        super({ enableSignals: true });
+
+        this.client = createPanDavClient(data.panDavAuth);
+    }
+
+    // Handle folder task processing
+    protected async processFolderTask(task: WorkerTask, msgIndex: number, retryCount: number, maxRetries: number): Promise<void> {
+        const { id, diskType, path } = task;
+
+        // if directory already exists, skip creation
+        if (fs.existsSync(path)) {
+            console.error(`[INFO] ${path}: directory already exists, skipping...`);
+        } else {
+            console.error(`[INFO] ${path}: creating directory (attempt ${retryCount + 1}/${maxRetries})`);
+            fs.mkdirSync(path, { recursive: true });
+            console.error(`[INFO] ${path}: directory created`);
+        }
+
+        // construct tasks
+        const contents = await this.client.getDirectoryContents(id);
+        const files = "data" in contents ? contents.data : contents;
+        // Sort files: folders first, then files, both sorted by name
+        files.sort((a, b) => {
+            if (a.type !== b.type) {
+                return a.type === "directory" ? -1 : 1;
+            }
+            return a.basename.localeCompare(b.basename);
+        });
+        const tasks: WorkerTask[] = files.map(f => ({
+            id: id + "/" + f.basename,
+            diskType: diskType, // unused in webdav
+            type: f.type === "directory" ? "folder" : "file",
+            path: path + "/" + f.basename
+        }));
+
+        // return tasks
+        parentPort!.postMessage({
+            type: "finish",
+            index: msgIndex,
+            tasks: tasks
+        });
+    }
+
+    // Handle file task processing
+    protected async processFileTask(task: WorkerTask, msgIndex: number, retryCount: number, maxRetries: number): Promise<void> {
+        const { id, path } = task;
+
+        download: do {
+            do {
+                // if file already exists, check size
+                if (!fs.existsSync(path)) break;
+
+                const currentSize = fs.statSync(path).size;
+                const stat = await this.client.stat(id);
+                const expectedSize = "data" in stat ? stat.data.size : stat.size;
+
+                // log size check
+                console.error(`[INFO] ${path}: exists with size ${currentSize}, expected ${expectedSize}`);
+
+                // if size matches, skip download
+                if (currentSize === expectedSize) {
+                    console.error(`[INFO] ${path}: file already downloaded completely, skipping...`);
+                    parentPort!.postMessage({
+                        type: "progress",
+                        index: msgIndex,
+                        path: path,
+                        transferred: currentSize,
+                        rate: 0
+                    });
+                    break download;
+                }
+
+                // if partial file exists, remove it for clean restart
+                console.error(`[INFO] ${path}: partial file detected, removing for clean restart`);
+                fs.unlinkSync(path);
+            } while (false);
+
+            console.error(`[INFO] ${path}: downloading (attempt ${retryCount + 1}/${maxRetries})`);
+            // Download file with pause/abort support
+            await downloadFromWebDav(id, path, this.client, (transferred, rate) => {
+                parentPort!.postMessage({
+                    type: "progress",
+                    index: msgIndex,
+                    path: path,
+                    transferred,
+                    rate
+                });
+            }, this.abortSignal, this.pauseSignal);
+            console.error(`[INFO] ${path}: download completed`);
+        } while (false);
+
+        // return empty tasks
+        parentPort!.postMessage({
+            type: "finish",
+            index: msgIndex,
+            tasks: []
+        });
+    }
+}
+
+// Create worker instance
+const data = workerData as PanDavDownloadWorkerData;
+new PanDavDownloadWorker(data);
@@ -0,0 +1,158 @@
+import RecAPI, { RecAuth, UploadSource, UserAuth } from "@services/rec-api.js";
+import { parentPort, workerData } from "worker_threads";
+import { createPanDavClient, getPanDavFileUrl, PanDavAuth, PanDavClient } from "@services/pan-dav-api.js";
+import { downloadRange } from "@utils/downloader.js";
+import { WorkerBase, WorkerTask } from "@utils/worker-utils.js";
+
+export type PanDavTransferWorkerData = {
+    // serializable user auth for constructing RecAPI and RecFileSystem
+    userAuth: UserAuth,
+    recAuth: RecAuth,
+    // serializable pan dav auth for constructing PanDavClient
+    panDavAuth: PanDavAuth
+}
+
+// transfer from pan dav to rec
+// task.id is the parent folder in rec, task.path is the path in webdav
+class PanDavTransferWorker extends WorkerBase {
+    private api: RecAPI;
+    private client: PanDavClient;
+
+    constructor(data: PanDavTransferWorkerData) {
+        super({ enableSignals: true }); // Enable pause/resume and abort signals
+
+        this.api = this.createRecAPI(data.userAuth, data.recAuth);
+        this.client = createPanDavClient(data.panDavAuth);
+    }
+
+    // Handle folder task processing
+    protected async processFolderTask(task: WorkerTask, msgIndex: number, retryCount: number, maxRetries: number): Promise<void> {
+        const { id, diskType, groupId, path } = task;
+
+        const name = path.split("/").pop()!;
+        let folderId = id;
+
+        // Check if folder already exists in remote parent folder
+        const folderFiles = (await this.api.listById(id, diskType, groupId)).datas;
+        const existingFolder = folderFiles.find(f => f.type === "folder" && f.name === name);
+
+        if (existingFolder) {
+            // Folder already exists, use existing folder ID
+            console.error(`[INFO] ${path}: directory already exists, using existing one`);
+            folderId = existingFolder.number;
+        } else {
+            // Create new folder
+            console.error(`[INFO] ${path}: creating directory (attempt ${retryCount + 1}/${maxRetries})`);
+            const res = await this.api.mkdirByFolderIds(id, [name], diskType, groupId);
+            folderId = res[0].number;
+            console.error(`[INFO] ${path}: directory created`);
+        }
+
+        // construct tasks
+        const contents = await this.client.getDirectoryContents(path);
+        const files = "data" in contents ? contents.data : contents;
+        // Sort files: folders first, then files, both sorted by name
+        files.sort((a, b) => {
+            if (a.type !== b.type) {
+                return a.type === "directory" ? -1 : 1;
+            }
+            return a.basename.localeCompare(b.basename);
+        });
+        const tasks: WorkerTask[] = files.map(f => ({
+            id: folderId,
+            diskType: diskType,
+            groupId: groupId,
+            type: f.type === "directory" ? "folder" : "file",
+            path: path + "/" + f.basename
+        }));
+
+        // return tasks
+        parentPort!.postMessage({
+            type: "finish",
+            index: msgIndex,
+            tasks: tasks
+        });
+    }
+
+    // Handle file task processing
+    protected async processFileTask(task: WorkerTask, msgIndex: number, retryCount: number, maxRetries: number): Promise<void> {
+        const { id, diskType, groupId, path } = task;
+
+        const stat = await this.client.stat(path);
+        const statData = "data" in stat ? stat.data : stat;
+
+        // if empty file, skip transfer
+        if (statData.size === 0) {
+            console.warn(`[WARN] ${path}: empty file will be ignored`);
+            parentPort!.postMessage({
+                type: "finish",
+                index: msgIndex,
+                tasks: []
+            });
+            return;
+        }
+
+        transfer: do {
+            do {
+                // Check if file already exists in remote folder
+                const folderFiles = (await this.api.listById(id, diskType, groupId)).datas;
+                const existingFile = folderFiles.find(f => f.type === "file" &&
+                    (f.file_ext ? f.name + "." + f.file_ext : f.name) === statData.basename);
+
+                if (!existingFile) break;
+
+                const info = await this.api.getFileInfo({ id: existingFile.number, type: "file" }, groupId);
+
+                // if size matches, skip transfer
+                if (info.bytes === statData.size) {
+                    console.error(`[INFO] ${path}: file already transferred, skipping...`);
+                    parentPort!.postMessage({
+                        type: "progress",
+                        index: msgIndex,
+                        path: path,
+                        transferred: statData.size,
+                        rate: 0
+                    });
+                    break transfer;
+                }
+
+                // if sizes differ, we'll upload (overwrite)
+                console.error(`[INFO] ${path}: file sizes differ, will transfer to overwrite`);
+            } while (false);
+
+            // read the webdav file chunk by chunk with Range requests
+            const source: UploadSource = {
+                name: statData.basename,
+                key: `webdav:${path}`,
+                size: statData.size,
+                mtimeMs: new Date(statData.lastmod).getTime(),
+                // credentials are sent by header instead of in the url
+                read: (start, length) => downloadRange(getPanDavFileUrl(path), start, length, this.abortSignal, this.client.getHeaders() as Record<string, string>)
+            };
+
+            console.error(`[INFO] ${path}: transferring (attempt ${retryCount + 1}/${maxRetries})`);
+            // Use the worker's pauseSignal and abortSignal for file transfer
+            await this.api.uploadSourceByFolderId(id, source, diskType, groupId, undefined, (transferred, rate) => {
+                parentPort!.postMessage({
+                    type: "progress",
+                    index: msgIndex,
+                    path: path,
+                    transferred: transferred,
+                    rate: rate
+                });
+            }, this.abortSignal, this.pauseSignal);
+            console.error(`[INFO] ${path}: transfer completed`);
+        } while (false);
+
+        // return empty tasks
+        parentPort!.postMessage({
+            type: "finish",
+            index: msgIndex,
+            tasks: []
+        });
+    }
+}
+
+// Initialize the worker
+const data = workerData as PanDavTransferWorkerData;
+new PanDavTransferWorker(data);
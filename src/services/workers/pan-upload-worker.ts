@@ -0,0 +1,122 @@
+import { parentPort, workerData } from "worker_threads";
+import fs from "fs";
+import { uploadToWebDav } from "@utils/downloader.js";
+import { createPanDavClient, PanDavAuth, PanDavClient } from "@services/pan-dav-api.js";
+import { WorkerBase, WorkerTask } from "@utils/worker-utils.js";
+
+export type PanDavUploadWorkerData = {
+    // serializable pan dav auth for constructing PanDavClient
+    panDavAuth: PanDavAuth
+}
+
+// task.id is the parent folder in webdav, task.path is the path in local file system
+class PanDavUploadWorker extends WorkerBase {
+    private client: PanDavClient;
+
+    constructor(data: PanDavUploadWorkerData) {
+        // Enable signals for upload worker (supports pause/resume/abort)
+        super({ enableSignals: true });
+
+        this.client = createPanDavClient(data.panDavAuth);
+    }
+
+    // Handle folder task processing
+    protected async processFolderTask(task: WorkerTask, msgIndex: number, retryCount: number, maxRetries: number): Promise<void> {
+        const { id, diskType, path } = task;
+
+        const folder = id + "/" + path.split("/").pop()!;
+
+        // if directory already exists, skip creation
+        if (await this.client.exists(folder)) {
+            console.error(`[INFO] ${path}: directory already exists, using existing one`);
+        } else {
+            console.error(`[INFO] ${path}: creating directory (attempt ${retryCount + 1}/${maxRetries})`);
+            await this.client.createDirectory(folder);
+            console.error(`[INFO] ${path}: directory created`);
+        }
+
+        // construct tasks
+        const files = fs.readdirSync(path, { withFileTypes: true });
+        // Sort files: folders first, then files, both sorted by name
+        files.sort((a, b) => {
+            if (a.isDirectory() !== b.isDirectory()) {
+                return a.isDirectory() ? -1 : 1;
+            }
+            return a.name.localeCompare(b.name);
+        });
+        const tasks: WorkerTask[] = files.map(f => ({
+            id: folder,
+            diskType: diskType, // unused in webdav
+            type: f.isDirectory() ? "folder" : "file",
+            path: path + "/" + f.name
+        }));
+
+        // return tasks
+        parentPort!.postMessage({
+            type: "finish",
+            index: msgIndex,
+            tasks: tasks
+        });
+    }
+
+    // Handle file task processing
+    protected async processFileTask(task: WorkerTask, msgIndex: number, retryCount: number, maxRetries: number): Promise<void> {
+        const { id, path } = task;
+
+        const dest = id + "/" + path.split("/").pop()!;
+        const localSize = fs.statSync(path).size;
+
+        upload: do {
+            do {
+                // if not exist, then upload
+                if (!await this.client.exists(dest)) break;
+
+                const stat = await this.client.stat(dest);
+                const remoteSize = "data" in stat ? stat.data.size : stat.size;
+
+                // log size check
+                console.error(`[INFO] ${path}: remote file exists with size ${remoteSize}, local size ${localSize}`);
+
+                // if size matches, skip upload
+                if (localSize === remoteSize) {
+                    console.error(`[INFO] ${path}: file already uploaded completely, skipping...`);
+                    parentPort!.postMessage({
+                        type: "progress",
+                        index: msgIndex,
+                        path: path,
+                        transferred: localSize,
+                        rate: 0
+                    });
+                    break upload;
+                }
+
+                // if sizes differ, we'll upload (overwrite)
+                console.error(`[INFO] ${path}: file sizes differ, will upload to overwrite`);
+            } while (false);
+
+            console.error(`[INFO] ${path}: uploading (attempt ${retryCount + 1}/${maxRetries})`);
+            // Upload file with progress and pause/abort support
+            await uploadToWebDav(path, dest, this.client, (transferred, rate) => {
+                parentPort!.postMessage({
+                    type: "progress",
+                    index: msgIndex,
+                    path: path,
+                    transferred,
+                    rate
+                });
+            }, this.abortSignal, this.pauseSignal);
+            console.error(`[INFO] ${path}: upload completed`);
+        } while (false);
+
+        // return empty tasks
+        parentPort!.postMessage({
+            type: "finish",
+            index: msgIndex,
+            tasks: []
+        });
+    }
+}
+
+// Create worker instance
+const data = workerData as PanDavUploadWorkerData;
+new PanDavUploadWorker(data);
@@ -9,7 +9,9 @@ export type TransferWorkerData = {
     userAuth: UserAuth,
     recAuth: RecAuth,
     // serializable pan dav auth for constructing PanDavClient
-    panDavAuth: PanDavAuth
+    panDavAuth: PanDavAuth,
+    // go on with the next task after a failed one
+    keepGoing?: boolean
 }
 
 // Concrete implementation of TransferWorker
@@ -18,9 +20,9 @@ class TransferWorker extends WorkerBase {
     private client: PanDavClient;
 
     constructor(data: TransferWorkerData) {
-        super({ enableSignals: true }); // Enable pause/resume and abort signals
+        super({ enableSignals: true, keepGoing: data.keepGoing }); // Enable pause/resume and abort signals
         
-        this.api = new RecAPI(data.userAuth, undefined, data.recAuth);
+        this.api = this.createRecAPI(data.userAuth, data.recAuth);
         this.client = createPanDavClient(data.panDavAuth);
     }
 
@@ -31,11 +33,11 @@ class TransferWorker extends WorkerBase {
 
         // if directory already exists, skip creation
         if (exists) {
-            console.log(`[INFO] ${path}: directory already exists, skipping...`);
+            console.error(`[INFO] ${path}: directory already exists, skipping...`);
         } else {
-            console.log(`[INFO] ${path}: creating directory (attempt ${retryCount + 1}/${maxRetries})`);
+            console.error(`[INFO] ${path}: creating directory (attempt ${retryCount + 1}/${maxRetries})`);
             await this.client.createDirectory(path);
-            console.log(`[INFO] ${path}: directory created`);
+            console.error(`[INFO] ${path}: directory created`);
         }
 
         // construct tasks
@@ -85,7 +87,7 @@ class TransferWorker extends WorkerBase {
 
                 // if size matches, skip transfer
                 if (originalSize === currentSize) {
-                    console.log(`[INFO] ${path}: file already transferred, skipping...`);
+                    console.error(`[INFO] ${path}: file already transferred, skipping...`);
                     parentPort!.postMessage({
                         type: "progress",
                         index: msgIndex,
@@ -97,7 +99,7 @@ class TransferWorker extends WorkerBase {
                 }
             } while (false);
 
-            console.log(`[INFO] ${path}: transferring (attempt ${retryCount + 1}/${maxRetries})`);
+            console.error(`[INFO] ${path}: transferring (attempt ${retryCount + 1}/${maxRetries})`);
             // Use the worker's pauseSignal and abortSignal for file transfer
             await downloadToWebDav(url, path, this.client, (transferred, rate) => {
                 parentPort!.postMessage({
@@ -108,7 +110,7 @@ class TransferWorker extends WorkerBase {
                     rate: rate
                 });
             }, this.abortSignal, this.pauseSignal);
-            console.log(`[INFO] ${path}: transfer completed`);
+            console.error(`[INFO] ${path}: transfer completed`);
         } while (false);
 
         // return empty tasks
@@ -6,18 +6,22 @@ import { WorkerTask, WorkerBase } from "@utils/worker-utils.js";
 export type UploadWorkerData = {
     // serializable user auth for constructing RecAPI and RecFileSystem  
     userAuth: UserAuth,
-    recAuth: RecAuth
+    recAuth: RecAuth,
+    // calculate fingerprint before upload, enables the server's dedup fast path
+    fingerprint: boolean
 }
 
 class UploadWorker extends WorkerBase {
     private api: RecAPI;
+    private fingerprint: boolean;
 
     constructor(data: UploadWorkerData) {
-        // Disable signals for upload worker (no pause/resume/abort support)
-        super({ enableSignals: false });
+        // Enable signals for upload worker (supports pause/resume/abort)
+        super({ enableSignals: true });
         
-        const { userAuth, recAuth } = data;
-        this.api = new RecAPI(userAuth, undefined, recAuth);
+        const { userAuth, recAuth, fingerprint } = data;
+        this.api = this.createRecAPI(userAuth, recAuth);
+        this.fingerprint = fingerprint;
     }
 
     // Handle folder task processing
@@ -33,14 +37,14 @@ class UploadWorker extends WorkerBase {
 
         if (existingFolder) {
             // Folder already exists, use existing folder ID
-            console.log(`[INFO] ${path}: directory already exists, using existing one`);
+            console.error(`[INFO] ${path}: directory already exists, using existing one`);
             folderId = existingFolder.number;
         } else {
             // Create new folder
-            console.log(`[INFO] ${path}: creating directory (attempt ${retryCount + 1}/${maxRetries})`);
+            console.error(`[INFO] ${path}: creating directory (attempt ${retryCount + 1}/${maxRetries})`);
             const res = await this.api.mkdirByFolderIds(id, [name], diskType, groupId);
             folderId = res[0].number;
-            console.log(`[INFO] ${path}: directory created`);
+            console.error(`[INFO] ${path}: directory created`);
         }
 
         // construct tasks using the folder ID (either existing or newly created)
@@ -111,22 +115,45 @@ class UploadWorker extends WorkerBase {
                 const remoteSize = remoteInfo.bytes;
 
                 // log size check
-                console.log(`[INFO] ${path}: remote file exists with size ${remoteSize}, local size ${localSize}`);
+                console.error(`[INFO] ${path}: remote file exists with size ${remoteSize}, local size ${localSize}`);
 
                 // if size matches, skip upload
                 if (localSize === remoteSize) {
-                    console.log(`[INFO] ${path}: file already uploaded completely, skipping...`);
+                    console.error(`[INFO] ${path}: file already uploaded completely, skipping...`);
+                    parentPort!.postMessage({
+                        type: "progress",
+                        index: msgIndex,
+                        path: path,
+                        transferred: localSize,
+                        rate: 0
+                    });
                     break upload;
                 }
 
                 // if sizes differ, we'll upload (overwrite)
-                console.log(`[INFO] ${path}: file sizes differ, will upload to overwrite`);
+                console.error(`[INFO] ${path}: file sizes differ, will upload to overwrite`);
             } while (false);
 
+            // Calculate fingerprint if enabled, other workers keep uploading meanwhile
+            let fingerprint: string | undefined;
+            if (this.fingerprint) {
+                console.error(`[INFO] ${path}: calculating fingerprint`);
+                fingerprint = await this.api.calcFingerprint(path);
+            }
+
             // Proceed with upload
-            console.log(`[INFO] ${path}: uploading (attempt ${retryCount + 1}/${maxRetries})`);
-            await this.api.uploadByFolderId(id, path, diskType, groupId);
-            console.log(`[INFO] ${path}: upload completed`);
+            console.error(`[INFO] ${path}: uploading (attempt ${retryCount + 1}/${maxRetries})`);
+            // Upload file with progress and pause/abort support
+            await this.api.uploadByFolderId(id, path, diskType, groupId, fingerprint, (transferred, rate) => {
+                parentPort!.postMessage({
+                    type: "progress",
+                    index: msgIndex,
+                    path: path,
+                    transferred,
+                    rate
+                });
+            }, this.abortSignal, this.pauseSignal);
+            console.error(`[INFO] ${path}: upload completed`);
         } while (false);
 
         // return empty tasks
@@ -1,12 +1,14 @@
-import { PanDavClient } from "@services/pan-dav-api.js";
+import { PanDavClient, getPanDavFileUrl } from "@services/pan-dav-api.js";
 import fs from "fs";
+import axios from "axios";
 import { pipeline } from "stream/promises";
+import { Readable } from "stream";
 import { PauseSignal } from "@utils/pause-signal.js";
-import { PausableDownloadStream, ProgressRateStream, ProgressCallback } from "@utils/stream-utils.js";
+import { PausableDownloadStream, ProgressRateStream, ProgressCallback, PauseGateStream } from "@utils/stream-utils.js";
 
-export async function downloadFile(url: string, dest: string, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal) {
+export async function downloadFile(url: string, dest: string, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal, headers?: Record<string, string>) {
     // Create a pausable stream that supports resume with Range requests
-    const downloadStream = new PausableDownloadStream(url, pauseSignal, abortSignal);
+    const downloadStream = new PausableDownloadStream(url, pauseSignal, abortSignal, headers);
 
     // Create a progress rate stream for tracking transfer progress
     const progressRateStream = new ProgressRateStream(onProgress);
@@ -85,4 +87,97 @@ export async function downloadToWebDav(url: string, dest: string, client: PanDav
         // Always remove the abort listener to prevent memory leaks
         abortSignal?.removeEventListener('abort', abortHandler);
     }
-}
\ No newline at end of file
+}
+
+// download a webdav file to local disk, pausing resumes with Range requests
+export async function downloadFromWebDav(src: string, dest: string, client: PanDavClient, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal) {
+    // credentials are sent by header instead of in the url
+    const headers = client.getHeaders() as Record<string, string>;
+    return downloadFile(getPanDavFileUrl(src), dest, onProgress, abortSignal, pauseSignal, headers);
+}
+
+// upload a local file to webdav, pausing holds the data back as a PUT cannot be resumed
+export async function uploadToWebDav(src: string, dest: string, client: PanDavClient, onProgress?: ProgressCallback, abortSignal?: AbortSignal, pauseSignal?: PauseSignal) {
+    const readStream = fs.createReadStream(src, {
+        highWaterMark: 1024 * 1024, // 1MB buffer size
+    });
+
+    // Hold data back while paused
+    const pauseGateStream = new PauseGateStream(pauseSignal);
+
+    // Create a progress rate stream for tracking transfer progress
+    const progressRateStream = new ProgressRateStream(onProgress);
+
+    const uploadStream = readStream.pipe(pauseGateStream).pipe(progressRateStream);
+
+    // Forward errors to uploadStream to ensure they're caught
+    readStream.on('error', (error) => {
+        uploadStream.destroy(error);
+    });
+    pauseGateStream.on('error', (error) => {
+        uploadStream.destroy(error);
+    });
+
+    // when failed
+    const abortHandler = () => {
+        // Reset progress using the stream's method
+        progressRateStream.resetProgress();
+        readStream.destroy();
+        pauseGateStream.destroy();
+        uploadStream.destroy(new Error("Upload was cancelled"));
+    };
+
+    abortSignal?.addEventListener('abort', abortHandler);
+
+    try {
+        return await client.putFileContents(dest, uploadStream, {
+            contentLength: fs.statSync(src).size,
+            overwrite: true
+        });
+    } catch (error) {
+        // Clean up streams on error
+        readStream.destroy();
+        pauseGateStream.destroy();
+        uploadStream.destroy();
+        throw error;
+    } finally {
+        // Always remove the abort listener to prevent memory leaks
+        abortSignal?.removeEventListener('abort', abortHandler);
+    }
+}
+
+// download length bytes from start of a file with a Range request
+// a server ignoring Range would send the whole file, which is not read but refused
+export async function downloadRange(url: string, start: number, length: number, abortSignal?: AbortSignal, headers?: Record<string, string>): Promise<Buffer> {
+    const response = await axios<Readable>({
+        method: 'GET',
+        url: url,
+        responseType: 'stream',
+        signal: abortSignal,
+        headers: {
+            ...headers,
+            'Range': `bytes=${start}-${start + length - 1}`
+        }
+    });
+    const contentLength = Number(response.headers['content-length']);
+    // a whole file is fine only if it is exactly the range
+    const whole = response.status === 200 && start === 0 && contentLength === length;
+    if (response.status !== 206 && !whole) {
+        response.data.destroy();
+        throw new Error(`range ${start}-${start + length - 1} not supported by the server, status ${response.status}`);
+    }
+    const chunks: Buffer[] = [];
+    let received = 0;
+    for await (const chunk of response.data) {
+        received += chunk.length;
+        if (received > length) {
+            response.data.destroy();
+            throw new Error(`range ${start}-${start + length - 1}: received more than ${length} bytes`);
+        }
+        chunks.push(chunk);
+    }
+    if (received !== length) {
+        throw new Error(`range ${start}-${start + length - 1}: received ${received} bytes, expected ${length}`);
+    }
+    return Buffer.concat(chunks, received);
+}
@@ -0,0 +1,97 @@
+import { globToRegExp } from "@utils/glob.js";
+
+export type FindSize = {
+    // "+" for greater than, "-" for less than, "=" for equal after rounding up to the unit
+    op: "+" | "-" | "=",
+    bytes: number,
+    unit: number
+}
+
+export type FindFilter = {
+    // glob pattern matched against the name
+    name?: string,
+    size?: FindSize,
+    type?: "file" | "folder",
+    // modified after this time in milliseconds
+    newer?: number,
+    creator?: string
+}
+
+// entry to be matched, creator is undefined if not known
+export type FindEntry = {
+    name: string,
+    size: number,
+    type: "file" | "folder",
+    lastModified: string,
+    creator?: string
+}
+
+const sizeUnits: { [key: string]: number } = {
+    "": 1,
+    "B": 1,
+    "K": 1024,
+    "M": 1024 ** 2,
+    "G": 1024 ** 3,
+    "T": 1024 ** 4
+};
+
+// parse size like "+1G", "-10M" or "512K", undefined if invalid
+export function parseFindSize(size: string): FindSize | undefined {
+    const match = size.match(/^([+-]?)(\d+(?:\.\d+)?)([BKMGT]?)$/i);
+    if (!match) return undefined;
+    const unit = sizeUnits[match[3].toUpperCase()];
+    return {
+        op: (match[1] || "=") as FindSize["op"],
+        bytes: Number(match[2]) * unit,
+        unit
+    };
+}
+
+// create a predicate matching entries against all given conditions of the filter
+export function createFindMatcher(filter: FindFilter): (entry: FindEntry) => boolean {
+    const name = filter.name ? globToRegExp(filter.name) : undefined;
+    return (entry) => {
+        if (name && !name.test(entry.name)) return false;
+        if (filter.type && entry.type !== filter.type) return false;
+        if (filter.size) {
+            const { op, bytes, unit } = filter.size;
+            if (op === "+" && !(entry.size > bytes)) return false;
+            if (op === "-" && !(entry.size < bytes)) return false;
+            if (op === "=" && Math.ceil(entry.size / unit) !== Math.ceil(bytes / unit)) return false;
+        }
+        if (filter.newer !== undefined && !(Date.parse(entry.lastModified) > filter.newer)) return false;
+        if (filter.creator !== undefined && entry.creator !== filter.creator) return false;
+        return true;
+    };
+}
+
+// walk a tree from root, listing at most concurrency folders at the same time
+// onNode is called for every node below root
+export function walkParallel<T>(root: T, list: (folder: T) => Promise<T[]>, isFolder: (node: T) => boolean, onNode: (node: T) => void, concurrency: number = 8): Promise<void> {
+    const queue: T[] = [root];
+    let active = 0;
+    let failed = false;
+
+    return new Promise((resolve, reject) => {
+        const next = () => {
+            if (failed) return;
+            if (queue.length === 0 && active === 0) return resolve();
+            while (active < concurrency && queue.length > 0) {
+                const folder = queue.shift()!;
+                active++;
+                list(folder).then(children => {
+                    for (const child of children) {
+                        onNode(child);
+                        if (isFolder(child)) queue.push(child);
+                    }
+                    active--;
+                    next();
+                }, e => {
+                    failed = true;
+                    reject(e);
+                });
+            }
+        };
+        next();
+    });
+}
@@ -0,0 +1,139 @@
+export type GlobEntry = {
+    name: string,
+    type: "file" | "folder"
+}
+
+// list a folder, undefined if it cannot be listed
+export type GlobLister = (dir: string) => Promise<GlobEntry[] | undefined>;
+
+// whether the pattern contains unescaped "*", "?" or "["
+export function isGlob(pattern: string): boolean {
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === "\\") {
+            i++;
+        } else if (c === "*" || c === "?" || c === "[") {
+            return true;
+        }
+    }
+    return false;
+}
+
+export function unescapeGlob(pattern: string): string {
+    return pattern.replace(/\\(.)/g, "$1");
+}
+
+// escape a path to be used in a glob pattern, the reverse of unescapeGlob for paths parsed by parseShellPatterns
+export function escapeGlob(path: string): string {
+    return path.replace(/[*?[\]|\\]/g, "\\$&");
+}
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// convert one path segment of a glob pattern to a regular expression
+// supports "*", "?", "[abc]", "[a-z]" and "[!abc]"
+export function globToRegExp(segment: string): RegExp {
+    let source = "";
+    for (let i = 0; i < segment.length; i++) {
+        const c = segment[i];
+        if (c === "\\" && i + 1 < segment.length) {
+            source += escapeRegExp(segment[++i]);
+        } else if (c === "*") {
+            source += ".*";
+        } else if (c === "?") {
+            source += ".";
+        } else if (c === "[") {
+            // "]" right after "[" or "[!" is a literal
+            const negate = segment[i + 1] === "!" || segment[i + 1] === "^";
+            const end = segment.indexOf("]", i + (negate ? 3 : 2));
+            // unclosed "[" is a literal
+            if (end === -1) {
+                source += "\\[";
+                continue;
+            }
+            const body = segment.slice(i + (negate ? 2 : 1), end).replace(/[\\\]^]/g, "\\$&");
+            source += `[${negate ? "^" : ""}${body}]`;
+            i = end;
+        } else {
+            source += escapeRegExp(c);
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function joinPath(base: string, name: string): string {
+    if (base === "") return name;
+    return base.endsWith("/") ? base + name : base + "/" + name;
+}
+
+// expand a glob pattern segment by segment against the listings of the lister
+// names starting with "." are only matched by segments starting with "."
+// matches are sorted by name, no match returns an empty array
+// if markFolders, matched folders end with "/"
+export async function expandGlob(pattern: string, list: GlobLister, markFolders: boolean = false): Promise<string[]> {
+    const segments = pattern.split("/");
+    // "" for relative pattern, "/" for absolute pattern
+    let bases = [pattern.startsWith("/") ? "/" : ""];
+    let expanded = false;
+
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        if (!segment) continue;
+
+        const last = !segments.slice(i + 1).some(s => s);
+
+        // plain segment before any glob segment, whether it exists is left to the command
+        if (!isGlob(segment) && !expanded) {
+            bases = bases.map(b => joinPath(b, unescapeGlob(segment)));
+            continue;
+        }
+
+        // only folders can be followed by more segments or a trailing slash
+        const folderOnly = !last || pattern.endsWith("/");
+        // plain segment after a glob segment must exist in each match
+        const match = isGlob(segment) ? globToRegExp(segment) : unescapeGlob(segment);
+        const matches: string[] = [];
+        for (const base of bases) {
+            const entries = await list(base || ".");
+            if (!entries) continue;
+            entries
+                .filter(e => typeof match === "string" ? e.name === match : match.test(e.name))
+                .filter(e => !e.name.startsWith(".") || segment.startsWith("."))
+                .filter(e => !folderOnly || e.type === "folder")
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .forEach(e => matches.push(joinPath(base, e.name) + (last && markFolders && e.type === "folder" ? "/" : "")));
+        }
+        bases = matches;
+        expanded = true;
+    }
+
+    return bases;
+}
+
+// longest literal part of a glob pattern, e.g. "report" for "*report_202?.csv"
+// used as keyword for server side search
+export function globKeyword(pattern: string): string {
+    let longest = "";
+    let current = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === "\\" && i + 1 < pattern.length) {
+            current += pattern[++i];
+            continue;
+        }
+        if (c === "*" || c === "?" || c === "[") {
+            if (current.length > longest.length) longest = current;
+            current = "";
+            // skip the whole bracket expression
+            if (c === "[") {
+                const end = pattern.indexOf("]", i + 2);
+                if (end !== -1) i = end;
+            }
+            continue;
+        }
+        current += c;
+    }
+    return current.length > longest.length ? current : longest;
+}
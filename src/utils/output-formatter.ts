@@ -0,0 +1,40 @@
+// text is the human readable output, the others are for scripts
+export type OutputFormat = "text" | "json" | "csv" | "tsv";
+
+export const outputFormats: OutputFormat[] = ["text", "json", "csv", "tsv"];
+
+// result of one command in json output, one object per line
+export type CommandResult = {
+    command: string,
+    args: string[],
+} & (
+    { stat: true, data: unknown } |
+    { stat: false, msg: string }
+)
+
+export function isOutputFormat(format: string): format is OutputFormat {
+    return (outputFormats as string[]).includes(format);
+}
+
+// format data as a table with a header line
+// arrays of objects are rows, an object is one row, anything else is one cell
+export function formatDelimited(data: unknown, format: "csv" | "tsv"): string {
+    if (data === undefined || data === null) return "";
+    const rows: Record<string, unknown>[] = (Array.isArray(data) ? data : [data])
+        .map(row => typeof row === "object" && row !== null ? row as Record<string, unknown> : { value: row });
+    if (rows.length === 0) return "";
+
+    // columns in the order they first appear
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+    const separator = format === "csv" ? "," : "\t";
+    const cell = (value: unknown): string => {
+        const str = value === undefined || value === null ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+        if (format === "tsv") return str.replace(/[\t\r\n]/g, " ");
+        return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+
+    return [
+        columns.map(cell).join(separator),
+        ...rows.map(row => columns.map(c => cell(row[c])).join(separator))
+    ].join("\n");
+}
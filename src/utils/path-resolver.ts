@@ -10,7 +10,9 @@ export function resolveFullPath(inputPath: string): string {
 }
 
 // resolve relative path to absolute path in rec file system
+// paths beginning with an id are resolved to the path the id was last resolved to
 export function resolveRecFullPath(rfs: RecFileSystem, inputPath: string): string {
+    inputPath = rfs.getIdPath(inputPath);
     const cwd = rfs.pwd();
     const path = inputPath.startsWith("/") ? inputPath : cwd.stat ? cwd.data + "/" + inputPath : inputPath;
     // deal with ".." and "." in the path
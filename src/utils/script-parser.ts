@@ -0,0 +1,67 @@
+import { escapePathToShell } from "@utils/shell-parser.js";
+
+// a command of a script and the line it begins on
+export type ScriptLine = {
+    line: number,
+    command: string
+}
+
+// split a script into commands
+// "#" begins a comment, a line ending with "\" continues on the next line,
+// "$NAME" and "${NAME}" are replaced by the value of the variable, escaped like a literal path so glob characters and "|" in it are kept
+// escape "#" and "$" with "\" to keep them
+export function parseScript(script: string, variables: { [name: string]: string }): ScriptLine[] {
+    const result: ScriptLine[] = [];
+    // the shell parser only splits on spaces
+    const lines = script.split(/\r?\n/).map(l => l.replace(/\t/g, " "));
+    for (let i = 0; i < lines.length; i++) {
+        const line = i + 1;
+        let command = "";
+        let text = lines[i];
+        // join continued lines, the backslash and the line break are removed
+        while (endsWithEscape(text) && i + 1 < lines.length) {
+            command += substitute(stripComment(text.slice(0, -1)), variables, line);
+            text = lines[++i];
+        }
+        command += substitute(stripComment(text), variables, line);
+        command = command.trim();
+        if (command) result.push({ line, command });
+    }
+    return result;
+}
+
+// whether the line ends with an unescaped backslash
+function endsWithEscape(text: string): boolean {
+    const backslashes = text.length - text.replace(/\\+$/, "").length;
+    return backslashes % 2 === 1;
+}
+
+// remove the comment beginning with an unescaped "#" at the start of a word
+function stripComment(text: string): string {
+    let escape = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (escape) {
+            escape = false;
+        } else if (c === "\\") {
+            escape = true;
+        } else if (c === "#" && (i === 0 || text[i - 1] === " " || text[i - 1] === "\t")) {
+            return text.slice(0, i);
+        }
+    }
+    return text;
+}
+
+// replace unescaped "$NAME" and "${NAME}", unknown variables are an error
+function substitute(text: string, variables: { [name: string]: string }, line: number): string {
+    return text.replace(/\\.|\$\{([^}]*)\}|\$([A-Za-z_][A-Za-z0-9_]*|[0-9])/g, (match, braced?: string, plain?: string) => {
+        // escaped characters are left to the shell parser
+        if (match.startsWith("\\")) return match;
+        const name = braced ?? plain!;
+        const value = variables[name];
+        if (value === undefined) {
+            throw new Error(`line ${line}: ${name}: unbound variable`);
+        }
+        return escapePathToShell(value);
+    });
+}
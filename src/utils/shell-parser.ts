@@ -1,3 +1,5 @@
+import { escapeGlob } from "@utils/glob.js";
+
 // parse a shell command line into an array of arguments
 // do not support in quote, but always use escape character
 export function parseShellCommand(command: string): string[] {
@@ -27,6 +29,35 @@ export function parseShellCommand(command: string): string[] {
     return result;
 }
 
+// like parseShellCommand, but escaped glob characters and "|" keep their escape character,
+// so escaped "*", "?" and "[" are not taken as glob patterns and "\|" is not a pipe, see unescapeGlob in @utils/glob.js
+export function parseShellPatterns(command: string): string[] {
+    const result: string[] = [];
+    let current = "";
+    let escape = false;
+    for (const c of command) {
+        if (escape) {
+            current += "*?[]|\\".includes(c) ? "\\" + c : c;
+            escape = false;
+        } else {
+            if (c === "\\") {
+                escape = true;
+            } else if (c === " ") {
+                if (current !== "") {
+                    result.push(current);
+                    current = "";
+                }
+            } else {
+                current += c;
+            }
+        }
+    }
+    if (current !== "") {
+        result.push(current);
+    }
+    return result;
+}
+
 export function unescapeFromShell(path: string): string {
     return path.replace(/\\(.)/g, "$1");
 }
@@ -35,3 +66,43 @@ export function unescapeFromShell(path: string): string {
 export function escapeToShell(path: string): string {
     return path.replace(/([\\ ])/g, "\\$1");
 }
+
+// escape a path to be typed as a literal argument of a command taking glob patterns,
+// so glob characters and "|" in the path are neither expanded nor a pipe
+export function escapePathToShell(path: string): string {
+    return escapeGlob(path).replace(/ /g, "\\ ");
+}
+
+// split options like "-i" or "--fingerprint" from positional arguments
+// valueOptions are the options taking the next argument as their value
+// "--" ends the options, all following arguments are positional
+export function parseOptions(args: string[], valueOptions: string[] = []): { options: { [key: string]: string | true }, rest: string[] } {
+    const options: { [key: string]: string | true } = {};
+    const rest: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === "--") {
+            rest.push(...args.slice(i + 1));
+            break;
+        }
+        if (arg.length > 1 && arg.startsWith("-")) {
+            options[arg] = valueOptions.includes(arg) ? args[++i] ?? "" : true;
+        } else {
+            rest.push(arg);
+        }
+    }
+    return { options, rest };
+}
+
+// parse "alias name=command" or "alias name='command ...'", the command may be quoted by "'" or "\""
+// undefined if the line does not define an alias
+export function parseAliasDefinition(line: string): { name: string, command: string } | undefined {
+    const match = line.trim().match(/^alias +([^ =\\|]+)=(.*)$/);
+    if (!match) return undefined;
+    let command = match[2];
+    const quote = command[0];
+    if ((quote === "'" || quote === "\"") && command.length > 1 && command.endsWith(quote)) {
+        command = command.slice(1, -1);
+    }
+    return { name: match[1], command: command.trim() };
+}
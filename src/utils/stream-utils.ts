@@ -1,11 +1,11 @@
-import { Readable, Transform } from "stream";
+import { Readable, Transform, Writable } from "stream";
 import axios from "axios";
 import { PauseSignal } from "@utils/pause-signal.js";
 
 /**
  * Create a Range request for downloading from a specific byte position
  */
-async function requestRangedDownload(url: string, startByte: number = 0, abortSignal?: AbortSignal) {
+async function requestRangedDownload(url: string, startByte: number = 0, abortSignal?: AbortSignal, headers?: Record<string, string>) {
     try {
         const response = await axios<Readable>({
             method: 'GET',
@@ -13,6 +13,7 @@ async function requestRangedDownload(url: string, startByte: number = 0, abortSi
             responseType: 'stream',
             signal: abortSignal,
             headers: {
+                ...headers,
                 'Range': `bytes=${startByte}-`
             }
         });
@@ -40,11 +41,12 @@ export class PausableDownloadStream extends Readable {
     private handleResume: () => void;
     private handleAbort: () => void;
 
-    // url must support range requests
+    // url must support range requests, headers are sent with every request, e.g. for authorization
     constructor(
         private url: string,
         private pauseSignal?: PauseSignal,
-        private abortSignal?: AbortSignal
+        private abortSignal?: AbortSignal,
+        private headers?: Record<string, string>
     ) {
         super();
         // Bind methods and store as properties
@@ -94,7 +96,7 @@ export class PausableDownloadStream extends Readable {
         }
 
         try {
-            const response = await requestRangedDownload(this.url, this.bytesReceived, this.abortSignal);
+            const response = await requestRangedDownload(this.url, this.bytesReceived, this.abortSignal, this.headers);
             this.downloadStream = response.data;
             
             // Initialize bytesTotal from content-length if not already set
@@ -177,17 +179,16 @@ export class PausableDownloadStream extends Readable {
 export type ProgressCallback = (transferred: number, rate: number) => void;
 
 /**
- * A transform stream that calculates transfer rate and reports progress
+ * A meter that calculates transfer rate of counted bytes and reports progress
  */
-export class ProgressRateStream extends Transform {
-    private transferred = 0;
-    private lastTransferred = 0;
+export class ProgressRateMeter {
+    private lastTransferred: number;
     private recentRates: number[] = [];
     private progressInterval: NodeJS.Timeout;
 
-    constructor(private onProgress?: ProgressCallback) {
-        super();
-        
+    constructor(private onProgress?: ProgressCallback, private transferred = 0) {
+        this.lastTransferred = transferred;
+
         // Set up interval for rate calculation - every 200ms
         this.progressInterval = setInterval(() => {
             const bytesDiff = this.transferred - this.lastTransferred;
@@ -209,34 +210,149 @@ export class ProgressRateStream extends Transform {
 
             this.lastTransferred = this.transferred;
         }, 200);
+    }
+
+    // count transferred bytes
+    add(bytes: number): void {
+        this.transferred += bytes;
+    }
+
+    // stop rate calculation and report the final progress
+    finish(): void {
+        this.stop();
+        this.onProgress?.(this.transferred, 0);
+    }
+
+    // stop rate calculation without reporting
+    stop(): void {
+        clearInterval(this.progressInterval);
+    }
+
+    // Method to reset progress (useful for abort scenarios)
+    reset(): void {
+        this.transferred = 0;
+        this.lastTransferred = 0;
+        this.recentRates = [];
+        // Reset progress callback
+        this.onProgress?.(0, 0);
+    }
+}
+
+/**
+ * A transform stream that calculates transfer rate and reports progress
+ */
+export class ProgressRateStream extends Transform {
+    private meter: ProgressRateMeter;
+
+    constructor(onProgress?: ProgressCallback) {
+        super();
+        this.meter = new ProgressRateMeter(onProgress);
 
         // Handle stream end
         this.on('end', () => {
-            this.onProgress?.(this.transferred, 0);
+            this.meter.finish();
         });
     }
 
     _transform(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null, data?: any) => void): void {
         // Update the transferred bytes counter
-        this.transferred += chunk.length;
+        this.meter.add(chunk.length);
         
         // Pass the chunk through
         callback(null, chunk);
     }
 
     _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
-        if (this.progressInterval) {
-            clearInterval(this.progressInterval);
-        }
+        this.meter.stop();
         callback(error);
     }
 
     // Method to reset progress (useful for abort scenarios)
     resetProgress(): void {
-        this.transferred = 0;
-        this.lastTransferred = 0;
-        this.recentRates = [];
-        // Reset progress callback
-        this.onProgress?.(0, 0);
+        this.meter.reset();
+    }
+}
+
+/**
+ * A transform stream that holds data back while paused, for uploads which cannot be resumed by range
+ */
+export class PauseGateStream extends Transform {
+    constructor(private pauseSignal?: PauseSignal) {
+        super();
+    }
+
+    _transform(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null, data?: any) => void): void {
+        if (!this.pauseSignal?.paused) {
+            callback(null, chunk);
+            return;
+        }
+        // Pass the chunk through once resumed
+        this.pauseSignal.once('resume', () => callback(null, chunk));
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Read a stream by ranges for uploads taking a read(start, length) function
+ * ranges must be asked for in order without gaps, as a stream cannot seek
+ */
+export function createSequentialReader(stream: Readable): (start: number, length: number) => Promise<Buffer> {
+    const iterator = stream[Symbol.asyncIterator]();
+    // chunks read ahead of the next range
+    let buffered: Buffer[] = [];
+    let bufferedLength = 0;
+    let position = 0;
+    return async (start, length) => {
+        if (start !== position) {
+            throw new Error(`cannot seek in a stream from ${position} to ${start}`);
+        }
+        while (bufferedLength < length) {
+            const { value, done } = await iterator.next();
+            if (done) break;
+            const chunk: Buffer = Buffer.isBuffer(value) ? value : Buffer.from(value);
+            buffered.push(chunk);
+            bufferedLength += chunk.length;
+        }
+        const data = Buffer.concat(buffered, bufferedLength);
+        const chunk = data.subarray(0, length);
+        const rest = data.subarray(chunk.length);
+        buffered = rest.length > 0 ? [rest] : [];
+        bufferedLength = rest.length;
+        position += chunk.length;
+        return chunk;
+    };
+}
+
+/**
+ * A terminal output which writes nothing while muted, e.g. the echo of a password typed into readline
+ * the size of the terminal is passed through, so readline can still move the cursor
+ */
+export class MutableOutput extends Writable {
+    public muted = false;
+
+    constructor(private output: NodeJS.WriteStream) {
+        super();
+        output.on('resize', () => this.emit('resize'));
+    }
+
+    get isTTY(): boolean {
+        return this.output.isTTY;
+    }
+
+    get columns(): number {
+        return this.output.columns;
+    }
+
+    get rows(): number {
+        return this.output.rows;
+    }
+
+    _write(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+        if (this.muted) {
+            callback();
+            return;
+        }
+        // written through at once, so nothing waits in the buffer until after muted changes
+        this.output.write(chunk, encoding);
+        callback();
+    }
+}
@@ -1,6 +1,7 @@
 import { Worker, parentPort } from "worker_threads";
 import { PauseSignal } from "@utils/pause-signal.js";
-import { DiskType, FileType } from "@services/rec-api.js";
+import RecAPI, { DiskType, FileType, RecAuth, UserAuth } from "@services/rec-api.js";
+import { TokenBroker } from "@services/token-broker.js";
 
 export type ProgressCallback = (filePath: string, transferred: number, rate: number) => void;
 
@@ -35,6 +36,8 @@ export type WorkerMessage = {
 } | {
     // transfer failed - should mark transfer as failed
     type: "failed",
+    // which thread failed, undefined if the worker itself crashed
+    index?: number,
     error: string,
     path?: string
 } | {
@@ -43,6 +46,19 @@ export type WorkerMessage = {
 } | {
     // resume the worker
     type: "resume"
+} | {
+    // a worker asks the main thread for new tokens, as its tokens are rejected or about to expire, see TokenBroker
+    type: "token-request",
+    // echoed by the reply
+    requestId: number,
+    authToken: string
+} | {
+    // new tokens from the main thread, to all workers when refreshed or to one worker replying to its token-request
+    type: "token",
+    requestId?: number,
+    userAuth?: UserAuth,
+    // the refresh failed, only in a reply
+    error?: string
 } | {
     // exit in the end
     type: "exit"
@@ -54,17 +70,32 @@ export interface WorkerConfig<T = any> {
     workerData: T;
     abortSignal?: AbortSignal;
     pauseSignal?: PauseSignal;
+    // report failed tasks by onTaskDone and go on, instead of failing the whole execution
+    // workers must be created with keepGoing too
+    keepGoing?: boolean;
+    // called when a task is finished, with the error if failed
+    onTaskDone?: (task: WorkerTask, error?: string) => void;
+    // shares the tokens of the account with the workers, for workers calling the Rec API
+    tokenBroker?: TokenBroker;
 }
 
 export class MultiWorkerExecutor<T = any> {
     private workers: Worker[] = [];
     private ready: boolean[] = [];
     private queue: WorkerTask[] = [];
+    // task being processed by each worker
+    private current: (WorkerTask | undefined)[] = [];
     private workerProgress = new Map<number, { path: string, transferred: number, rate: number, completedSize: number }>();
     private lastProgressUpdate = Date.now();
     
     // Store progress callback as instance variable
     private onProgress?: ProgressCallback;
+
+    // Reject the running execution, so that an abort doesn't leave it pending
+    private rejectExecution?: (error: Error) => void;
+
+    // Stop getting tokens from the token broker
+    private unsubscribeTokens?: () => void;
     
     // Store event listener functions for proper cleanup
     private abortHandler: () => void;
@@ -73,7 +104,10 @@ export class MultiWorkerExecutor<T = any> {
 
     constructor(private config: WorkerConfig<T>) {
         // Initialize event handlers once in constructor
-        this.abortHandler = () => this.terminateAllWorkers();
+        this.abortHandler = () => {
+            this.terminateAllWorkers();
+            this.rejectExecution?.(new Error("Execution was cancelled"));
+        };
 
         this.pauseListener = () => this.handlePauseSignal(true);
         this.resumeListener = () => this.handlePauseSignal(false);
@@ -89,10 +123,14 @@ export class MultiWorkerExecutor<T = any> {
         });
     }
 
+    // execute a root task, or several independent tasks at once
     public async execute(
-        task: WorkerTask,
+        task: WorkerTask | WorkerTask[],
         onProgress?: ProgressCallback
     ): Promise<void> {
+        const tasks = Array.isArray(task) ? task : [task];
+        if (tasks.length === 0) return;
+
         // Store progress callback as instance variable
         this.onProgress = onProgress;
         
@@ -103,10 +141,10 @@ export class MultiWorkerExecutor<T = any> {
             // Create and await the execution promise
             const executionPromise = this.createExecutionPromise();
             
-            // Start the first task if not cancelled
+            // Start the first tasks if not cancelled
             if (!this.config.abortSignal?.aborted) {
-                this.ready[0] = false;
-                this.workers[0].postMessage({ type: "task", index: 0, task: task });
+                this.queue.push(...tasks);
+                this.allocateTasksToWorkers();
             }
 
             // Wait for completion
@@ -124,8 +162,14 @@ export class MultiWorkerExecutor<T = any> {
             })
         );
         this.ready = new Array(this.config.workerCount).fill(true);
+        this.current = new Array(this.config.workerCount).fill(undefined);
         this.queue = [];
         this.workerProgress.clear();
+
+        // Push refreshed tokens to all workers
+        this.unsubscribeTokens = this.config.tokenBroker?.subscribe(userAuth => {
+            this.workers.forEach(w => w.postMessage({ type: "token", userAuth: userAuth }));
+        });
     }
 
     private setupEventListeners(): void {
@@ -139,8 +183,14 @@ export class MultiWorkerExecutor<T = any> {
 
     private createExecutionPromise(): Promise<void> {
         return new Promise<void>((resolve, reject) => {
+            this.rejectExecution = reject;
             this.workers.forEach(worker => {
                 worker.on("message", async (msg: WorkerMessage) => {
+                    // answered even while paused, the worker waits for it in the middle of a task
+                    if (msg.type === "token-request") {
+                        this.handleTokenRequest(worker, msg);
+                        return;
+                    }
                     try {
                         // Check if aborted before processing any message
                         if (this.config.abortSignal?.aborted) {
@@ -181,13 +231,25 @@ export class MultiWorkerExecutor<T = any> {
         } else if (type === "progress") {
             this.handleProgressMessage(msg);
         } else if (type === "failed") {
-            this.handleFailedMessage(msg, reject);
+            this.handleFailedMessage(msg, reject, resolve);
         } else {
             console.warn(`[WARN] Unknown message type: ${type}`);
             console.warn(`[WARN] Message content: ${JSON.stringify(msg)}`);
         }
     }
 
+    // Reply new tokens from the token broker to the worker asking for them
+    private handleTokenRequest(worker: Worker, msg: Extract<WorkerMessage, { type: "token-request" }>): void {
+        const reply = (content: { userAuth: UserAuth } | { error: string }) => worker.postMessage({ type: "token", requestId: msg.requestId, ...content });
+        if (!this.config.tokenBroker) {
+            reply({ error: "tokens cannot be refreshed in this transfer" });
+            return;
+        }
+        this.config.tokenBroker.request(msg.authToken)
+            .then(userAuth => reply({ userAuth }))
+            .catch(e => reply({ error: e instanceof Error ? e.message : String(e) }));
+    }
+
     private handleFinishMessage(
         msg: Extract<WorkerMessage, { type: "finish" }>, 
         resolve: () => void
@@ -208,8 +270,13 @@ export class MultiWorkerExecutor<T = any> {
             }
         }
 
+        // Report the finished task
+        const task = this.current[msg.index];
+        if (task) this.config.onTaskDone?.(task);
+
         // Set worker as ready and add new tasks to queue
         this.ready[msg.index] = true;
+        this.current[msg.index] = undefined;
         this.queue.push(...msg.tasks);
 
         // Allocate tasks to ready workers
@@ -248,8 +315,32 @@ export class MultiWorkerExecutor<T = any> {
 
     private handleFailedMessage(
         msg: Extract<WorkerMessage, { type: "failed" }>,
-        reject: (error: Error) => void
+        reject: (error: Error) => void,
+        resolve: () => void
     ): void {
+        // A failed task doesn't stop the others if keepGoing, unless the worker itself crashed
+        if (this.config.keepGoing && msg.index !== undefined) {
+            const task = this.current[msg.index];
+            if (task) this.config.onTaskDone?.(task, msg.error);
+
+            // Drop the progress of the failed task
+            const currentProgress = this.workerProgress.get(msg.index);
+            if (currentProgress) {
+                currentProgress.transferred = 0;
+                currentProgress.rate = 0;
+            }
+
+            this.ready[msg.index] = true;
+            this.current[msg.index] = undefined;
+            this.allocateTasksToWorkers();
+
+            if (this.ready.every(r => r)) {
+                this.terminateAllWorkers();
+                resolve();
+            }
+            return;
+        }
+
         this.terminateAllWorkers();
         reject(new Error(`Execution failed: ${msg.error}${msg.path ? ` (Path: ${msg.path})` : ''}`));
     }
@@ -277,6 +368,7 @@ export class MultiWorkerExecutor<T = any> {
             
             const task = this.queue.shift();
             this.ready[index] = false;
+            this.current[index] = task;
             this.workers[index].postMessage({ type: "task", index: index, task: task });
         }
     }
@@ -296,9 +388,14 @@ export class MultiWorkerExecutor<T = any> {
         this.config.pauseSignal?.off('pause', this.pauseListener);
         this.config.pauseSignal?.off('resume', this.resumeListener);
 
+        // Stop pushing tokens
+        this.unsubscribeTokens?.();
+        this.unsubscribeTokens = undefined;
+
         // Clear progress tracking and callback
         this.workerProgress.clear();
         this.onProgress = undefined;
+        this.rejectExecution = undefined;
     }
 }
 
@@ -307,8 +404,16 @@ export abstract class WorkerBase {
     protected pauseSignal?: PauseSignal;
     protected abortController?: AbortController;
     protected abortSignal?: AbortSignal;
-
-    constructor(options?: { enableSignals?: boolean }) {
+    // a failed task doesn't abort the worker, it goes on with the next task
+    protected keepGoing: boolean;
+    // apis created by createRecAPI, updated by token messages
+    private apis: RecAPI[] = [];
+    // token-requests waiting for their replies, by requestId
+    private tokenRequests = new Map<number, { resolve: (userAuth: UserAuth) => void, reject: (error: Error) => void }>();
+    private nextTokenRequest = 0;
+
+    constructor(options?: { enableSignals?: boolean, keepGoing?: boolean }) {
+        this.keepGoing = options?.keepGoing ?? false;
         if (options?.enableSignals) {
             this.pauseSignal = new PauseSignal();
             this.abortController = new AbortController();
@@ -339,6 +444,8 @@ export abstract class WorkerBase {
             this.handleResumeMessage();
         } else if (type === "task") {
             await this.handleTaskMessage(msg);
+        } else if (type === "token") {
+            this.handleTokenMessage(msg);
         } else if (type === "exit") {
             this.handleExitMessage(); // This will not return
         } else {
@@ -379,6 +486,33 @@ export abstract class WorkerBase {
         this.pauseSignal?.resume();
     }
 
+    // Create a RecAPI sharing its tokens with the main thread and the other workers
+    // the tokens are refreshed by the main thread only, so a refresh token is never used twice
+    protected createRecAPI(userAuth: UserAuth, recAuth?: RecAuth): RecAPI {
+        const api = new RecAPI(userAuth, undefined, recAuth, (userAuth) => this.requestToken(userAuth.authToken));
+        this.apis.push(api);
+        return api;
+    }
+
+    // Ask the main thread for new tokens, see TokenBroker
+    private requestToken(authToken: string): Promise<UserAuth> {
+        const requestId = this.nextTokenRequest++;
+        return new Promise((resolve, reject) => {
+            this.tokenRequests.set(requestId, { resolve, reject });
+            parentPort!.postMessage({ type: "token-request", requestId: requestId, authToken: authToken });
+        });
+    }
+
+    // Handle tokens refreshed by the main thread, pushed to all workers or replying to a token-request
+    protected handleTokenMessage(msg: Extract<WorkerMessage, { type: "token" }>): void {
+        if (msg.userAuth) this.apis.forEach(api => api.updateUserAuth(msg.userAuth!, false));
+        if (msg.requestId === undefined) return;
+        const request = this.tokenRequests.get(msg.requestId);
+        this.tokenRequests.delete(msg.requestId);
+        if (msg.userAuth) request?.resolve(msg.userAuth);
+        else request?.reject(new Error(msg.error ?? "failed to refresh token"));
+    }
+
     // Handle exit command
     protected handleExitMessage(): void {
         // Trigger abort signal before exiting if available
@@ -387,7 +521,7 @@ export abstract class WorkerBase {
     }
 
     // Handle retry logic and exponential backoff
-    protected async handleRetry(error: any, task: WorkerTask, retryCount: number, maxRetries: number): Promise<boolean> {
+    protected async handleRetry(error: any, task: WorkerTask, retryCount: number, maxRetries: number, msgIndex?: number): Promise<boolean> {
         console.error(`[ERROR] Failed to process ${task.type} ${task.path} (attempt ${retryCount}/${maxRetries}):`, error);
 
         if (retryCount >= maxRetries) {
@@ -395,19 +529,20 @@ export abstract class WorkerBase {
             console.error(`[FAILED] Task failed after ${maxRetries} attempts for ${task.path}`);
 
             // Trigger abort signal when task fails after max retries if available
-            this.abortController?.abort();
+            if (!this.keepGoing) this.abortController?.abort();
             
             // Send failed message to main thread
             parentPort!.postMessage({
                 type: "failed",
+                index: msgIndex,
                 error: `Task failed after ${maxRetries} attempts: ${error.message || error}`,
-                taskPath: task.path
+                path: task.path
             });
             return false; // Don't retry
         } else {
             // Wait before retry (exponential backoff)
             const waitTime = Math.min(1000 * Math.pow(2, retryCount - 1), 5000);
-            console.log(`[INFO] Waiting ${waitTime}ms before retry ${retryCount + 1}/${maxRetries} for ${task.path}`);
+            console.error(`[INFO] Waiting ${waitTime}ms before retry ${retryCount + 1}/${maxRetries} for ${task.path}`);
             await new Promise(resolve => setTimeout(resolve, waitTime));
             return true; // Continue retrying
         }
@@ -442,7 +577,7 @@ export abstract class WorkerBase {
                 }
 
                 retryCount++;
-                const shouldRetry = await this.handleRetry(error, task, retryCount, maxRetries);
+                const shouldRetry = await this.handleRetry(error, task, retryCount, maxRetries, msg.index);
                 if (!shouldRetry) {
                     return; // Exit if max retries reached
                 }